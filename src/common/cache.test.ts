@@ -0,0 +1,165 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cache_config } from '../config/env.js';
+import { cache_key, with_cache } from './cache.js';
+
+const default_ttls = { ...cache_config.ttls };
+
+afterEach(() => {
+	Object.assign(cache_config.ttls, default_ttls);
+	vi.useRealTimers();
+});
+
+describe('with_cache', () => {
+	it('serves repeated calls from the cache until bypassed', async () => {
+		const params = { query: 'cached query' };
+		const fn = vi.fn(async () => 'result');
+
+		expect(
+			await with_cache('search', 'tavily', 'search', params, fn),
+		).toEqual({ value: 'result', cache: 'miss' });
+		expect(
+			await with_cache('search', 'tavily', 'search', params, fn),
+		).toEqual({ value: 'result', cache: 'hit' });
+		expect(fn).toHaveBeenCalledTimes(1);
+
+		fn.mockResolvedValueOnce('fresh');
+		expect(
+			await with_cache(
+				'search',
+				'tavily',
+				'search',
+				params,
+				fn,
+				true,
+			),
+		).toEqual({ value: 'fresh', cache: 'miss' });
+		expect(
+			await with_cache('search', 'tavily', 'search', params, fn),
+		).toEqual({ value: 'fresh', cache: 'hit' });
+	});
+
+	it('makes one upstream call for concurrent misses', async () => {
+		const params = { query: 'concurrent query' };
+		const fn = vi.fn(
+			() =>
+				new Promise<string>((resolve) =>
+					setTimeout(() => resolve('result'), 10),
+				),
+		);
+
+		const results = await Promise.all([
+			with_cache('search', 'tavily', 'search', params, fn),
+			with_cache('search', 'tavily', 'search', params, fn),
+		]);
+		expect(results.map((r) => r.value)).toEqual(['result', 'result']);
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it('expires entries after the category TTL', async () => {
+		vi.useFakeTimers();
+		cache_config.ttls.search = 1000;
+		const params = { query: 'expiring query' };
+		const fn = vi.fn(async () => 'result');
+
+		await with_cache('search', 'tavily', 'search', params, fn);
+		vi.advanceTimersByTime(999);
+		await with_cache('search', 'tavily', 'search', params, fn);
+		expect(fn).toHaveBeenCalledTimes(1);
+
+		vi.advanceTimersByTime(1);
+		expect(
+			await with_cache('search', 'tavily', 'search', params, fn),
+		).toEqual({ value: 'result', cache: 'miss' });
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	it('does not cache a category with a TTL of 0', async () => {
+		cache_config.ttls.processing = 0;
+		const fn = vi.fn(async () => 'result');
+
+		await with_cache('processing', 'firecrawl_scrape', 'x', {}, fn);
+		await with_cache('processing', 'firecrawl_scrape', 'x', {}, fn);
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+	it('keeps the same provider and params apart across categories', async () => {
+		const params = { query: 'same query' };
+		const search = await with_cache(
+			'search',
+			'perplexity',
+			'search',
+			params,
+			async () => 'search result',
+		);
+		const answer = await with_cache(
+			'ai_response',
+			'perplexity',
+			'search',
+			params,
+			async () => 'ai answer',
+		);
+
+		expect(search).toEqual({ value: 'search result', cache: 'miss' });
+		expect(answer).toEqual({ value: 'ai answer', cache: 'miss' });
+		expect(
+			await with_cache(
+				'search',
+				'perplexity',
+				'search',
+				params,
+				async () => 'not cached',
+			),
+		).toEqual({ value: 'search result', cache: 'hit' });
+	});
+
+	it('does not coalesce concurrent calls across categories', async () => {
+		const params = { query: 'in flight' };
+		const [search, answer] = await Promise.all([
+			with_cache(
+				'search',
+				'perplexity',
+				'search',
+				params,
+				async () => {
+					await new Promise((resolve) => setTimeout(resolve, 10));
+					return 'search result';
+				},
+			),
+			with_cache(
+				'ai_response',
+				'perplexity',
+				'search',
+				params,
+				async () => 'ai answer',
+			),
+		]);
+
+		expect(search.value).toBe('search result');
+		expect(answer.value).toBe('ai answer');
+	});
+});
+
+describe('cache_key', () => {
+	it('ignores key order, undefined values and extra whitespace', () => {
+		expect(
+			cache_key('search', 'tavily', 'search', {
+				query: '  rust   async ',
+				limit: 5,
+				language: undefined,
+			}),
+		).toBe(
+			cache_key('search', 'tavily', 'search', {
+				limit: 5,
+				query: 'rust async',
+			}),
+		);
+		expect(
+			cache_key('search', 'tavily', 'search', { limit: 5 }),
+		).not.toBe(cache_key('search', 'brave', 'search', { limit: 5 }));
+	});
+
+	it('includes the category', () => {
+		expect(cache_key('search', 'perplexity', 'search', {})).not.toBe(
+			cache_key('ai_response', 'perplexity', 'search', {}),
+		);
+	});
+});
@@ -0,0 +1,211 @@
+// Response cache for provider calls (in-memory LRU, optional on-disk tier)
+
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { cache_config } from '../config/env.js';
+import { coalesce } from './coalesce.js';
+import { with_provider_category } from './latency.js';
+import { logger } from './logger.js';
+import { cache_lookups } from './metrics.js';
+
+export type CacheCategory =
+	| 'search'
+	| 'ai_response'
+	| 'processing'
+	| 'enhancement';
+
+export type CacheStatus = 'hit' | 'miss';
+
+interface CacheEntry {
+	value: unknown;
+	expires_at: number;
+}
+
+interface CacheBackend {
+	get(key: string): Promise<CacheEntry | undefined>;
+	set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+class MemoryCache implements CacheBackend {
+	private entries = new Map<string, CacheEntry>();
+
+	constructor(private max_entries: number) {}
+
+	async get(key: string) {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		this.entries.delete(key);
+		if (entry.expires_at <= Date.now()) return undefined;
+		// Re-insert so Map order tracks recency
+		this.entries.set(key, entry);
+		return entry;
+	}
+
+	async set(key: string, entry: CacheEntry) {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.max_entries) {
+			this.entries.delete(this.entries.keys().next().value!);
+		}
+	}
+}
+
+class DiskCache implements CacheBackend {
+	private ready?: Promise<unknown>;
+
+	constructor(private dir: string) {}
+
+	private path(key: string) {
+		return join(this.dir, `${key}.json`);
+	}
+
+	async get(key: string) {
+		try {
+			const entry: CacheEntry = JSON.parse(
+				await readFile(this.path(key), 'utf8'),
+			);
+			if (entry.expires_at > Date.now()) return entry;
+			await unlink(this.path(key)).catch(() => {});
+		} catch {
+			// Missing or unreadable entries are plain misses
+		}
+		return undefined;
+	}
+
+	async set(key: string, entry: CacheEntry) {
+		try {
+			this.ready ??= mkdir(this.dir, { recursive: true });
+			await this.ready;
+			await writeFile(this.path(key), JSON.stringify(entry));
+		} catch (error) {
+			logger.error('Failed to write cache entry', { error });
+		}
+	}
+}
+
+// Memory in front of disk; disk hits are promoted to memory
+class TieredCache implements CacheBackend {
+	constructor(
+		private memory: CacheBackend,
+		private disk: CacheBackend,
+	) {}
+
+	async get(key: string) {
+		const entry =
+			(await this.memory.get(key)) ?? (await this.disk.get(key));
+		if (entry) await this.memory.set(key, entry);
+		return entry;
+	}
+
+	async set(key: string, entry: CacheEntry) {
+		await Promise.all([
+			this.memory.set(key, entry),
+			this.disk.set(key, entry),
+		]);
+	}
+}
+
+const create_backend = (): CacheBackend | undefined => {
+	if (cache_config.backend === 'off') return undefined;
+	const memory = new MemoryCache(cache_config.max_entries);
+	return cache_config.backend === 'disk'
+		? new TieredCache(memory, new DiskCache(cache_config.dir))
+		: memory;
+};
+
+const backend = create_backend();
+
+// Sort keys, drop undefined and collapse whitespace so equivalent
+// parameter objects produce the same key
+const normalize = (value: unknown): unknown => {
+	if (typeof value === 'string') {
+		return value.trim().replace(/\s+/g, ' ');
+	}
+	if (Array.isArray(value)) return value.map(normalize);
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(
+			Object.keys(value)
+				.sort()
+				.filter(
+					(k) => (value as Record<string, unknown>)[k] !== undefined,
+				)
+				.map((k) => [
+					k,
+					normalize((value as Record<string, unknown>)[k]),
+				]),
+		);
+	}
+	return value;
+};
+
+// The category is part of the key because provider names repeat across
+// categories (perplexity is both a search and an ai_response provider)
+export const cache_key = (
+	category: CacheCategory,
+	provider: string,
+	operation: string,
+	params: unknown,
+): string =>
+	createHash('sha256')
+		.update(
+			JSON.stringify(
+				normalize({ category, provider, operation, params }),
+			),
+		)
+		.digest('hex');
+
+/**
+ * Run a provider call through the response cache. Concurrent misses
+ * for the same key are coalesced into a single upstream call.
+ * @param category Cache category, which selects the TTL
+ * @param provider Provider name
+ * @param operation Operation name (search, process_content, ...)
+ * @param params Parameters that determine the provider's response
+ * @param fn The provider call to run on a miss, given the signal of the
+ * (possibly shared) upstream call
+ * @param bypass Skip the lookup (the fresh value is still stored)
+ * @param signal Caller's cancellation signal
+ * @returns The value and whether it came from the cache
+ */
+export const with_cache = async <T>(
+	category: CacheCategory,
+	provider: string,
+	operation: string,
+	params: unknown,
+	fn: (signal: AbortSignal) => Promise<T>,
+	bypass = false,
+	signal?: AbortSignal,
+): Promise<{ value: T; cache: CacheStatus }> => {
+	const ttl = cache_config.ttls[category];
+	const key = cache_key(category, provider, operation, params);
+	if (backend && ttl && !bypass) {
+		const entry = await backend.get(key);
+		cache_lookups.inc({
+			category,
+			provider,
+			result: entry ? 'hit' : 'miss',
+		});
+		if (entry) return { value: entry.value as T, cache: 'hit' };
+	}
+
+	// Identical concurrent misses share one upstream call
+	const value = await coalesce(
+		key,
+		async (shared_signal) => {
+			// Latency is tracked per category, like the cache key
+			const value = await with_provider_category(category, () =>
+				fn(shared_signal),
+			);
+			if (backend && ttl) {
+				await backend.set(key, {
+					value,
+					expires_at: Date.now() + ttl,
+				});
+			}
+			return value;
+		},
+		signal,
+	);
+	return { value, cache: 'miss' };
+};
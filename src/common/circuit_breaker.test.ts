@@ -0,0 +1,205 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { circuit_breaker_config } from '../config/env.js';
+import {
+	get_circuit_statuses,
+	get_open_circuit,
+	with_circuit_breaker,
+} from './circuit_breaker.js';
+import { ErrorType, ProviderError } from './types.js';
+
+const default_config = { ...circuit_breaker_config };
+
+const fail = (type: ErrorType) => () =>
+	Promise.reject(new ProviderError(type, `${type} failure`, 'test'));
+
+const trip = async (provider: string) => {
+	for (let i = 0; i < circuit_breaker_config.threshold; i++) {
+		await expect(
+			with_circuit_breaker(
+				'search',
+				provider,
+				fail(ErrorType.PROVIDER_ERROR),
+			),
+		).rejects.toThrow();
+	}
+};
+
+afterEach(() => {
+	Object.assign(circuit_breaker_config, default_config);
+	vi.useRealTimers();
+});
+
+describe('with_circuit_breaker', () => {
+	it('opens after consecutive outages and rejects without calling', async () => {
+		circuit_breaker_config.threshold = 3;
+		await trip('tavily');
+
+		const fn = vi.fn(async () => 'ok');
+		await expect(
+			with_circuit_breaker('search', 'tavily', fn),
+		).rejects.toThrow(
+			'tavily unavailable: Circuit open after 3 consecutive failures',
+		);
+		expect(fn).not.toHaveBeenCalled();
+		expect(get_circuit_statuses()['search.tavily']).toMatchObject({
+			state: 'open',
+			consecutive_failures: 3,
+		});
+	});
+
+	it('ignores errors that mean the provider is reachable', async () => {
+		circuit_breaker_config.threshold = 2;
+		for (const type of [
+			ErrorType.API_ERROR,
+			ErrorType.RATE_LIMIT,
+			ErrorType.INVALID_INPUT,
+		]) {
+			await expect(
+				with_circuit_breaker('search', 'brave', fail(type)),
+			).rejects.toThrow();
+		}
+		expect(get_open_circuit('search', 'brave')).toBeUndefined();
+	});
+
+	it('resets the failure count on success', async () => {
+		circuit_breaker_config.threshold = 2;
+		const outage = fail(ErrorType.PROVIDER_ERROR);
+
+		await expect(
+			with_circuit_breaker('search', 'kagi', outage),
+		).rejects.toThrow();
+		await with_circuit_breaker('search', 'kagi', async () => 'ok');
+		await expect(
+			with_circuit_breaker('search', 'kagi', outage),
+		).rejects.toThrow();
+		expect(get_open_circuit('search', 'kagi')).toBeUndefined();
+	});
+
+	it('lets one probe through after the cooldown', async () => {
+		vi.useFakeTimers();
+		circuit_breaker_config.cooldown_ms = 1000;
+		await trip('exa');
+
+		vi.advanceTimersByTime(1000);
+		expect(get_circuit_statuses()['search.exa'].state).toBe(
+			'half_open',
+		);
+
+		// A failed probe reopens the circuit straight away
+		await expect(
+			with_circuit_breaker(
+				'search',
+				'exa',
+				fail(ErrorType.PROVIDER_ERROR),
+			),
+		).rejects.toThrow();
+		expect(get_circuit_statuses()['search.exa'].state).toBe('open');
+
+		vi.advanceTimersByTime(1000);
+		let finish_probe!: (value: string) => void;
+		const probe = with_circuit_breaker(
+			'search',
+			'exa',
+			() =>
+				new Promise<string>((resolve) => (finish_probe = resolve)),
+		);
+		expect(get_open_circuit('search', 'exa')).toBe(
+			'Circuit half-open; a probe request is in flight',
+		);
+		finish_probe('ok');
+		expect(await probe).toBe('ok');
+		expect(get_circuit_statuses()['search.exa']).toEqual({
+			state: 'closed',
+			consecutive_failures: 0,
+		});
+	});
+
+	it('keeps circuits apart for the same provider in two categories', async () => {
+		const outage = () =>
+			Promise.reject(
+				new ProviderError(
+					ErrorType.PROVIDER_ERROR,
+					'upstream 503',
+					'perplexity',
+				),
+			);
+		for (let i = 0; i < circuit_breaker_config.threshold; i++) {
+			await expect(
+				with_circuit_breaker('search', 'perplexity', outage),
+			).rejects.toThrow('upstream 503');
+		}
+
+		expect(get_open_circuit('search', 'perplexity')).toBeDefined();
+		expect(
+			get_open_circuit('ai_response', 'perplexity'),
+		).toBeUndefined();
+		expect(
+			await with_circuit_breaker(
+				'ai_response',
+				'perplexity',
+				async () => 'answer',
+			),
+		).toBe('answer');
+		expect(get_circuit_statuses()['search.perplexity'].state).toBe(
+			'open',
+		);
+		expect(
+			get_circuit_statuses()['ai_response.perplexity'].state,
+		).toBe('closed');
+	});
+
+	it('classifies timeouts by error type, not message', async () => {
+		circuit_breaker_config.threshold = 1;
+
+		await expect(
+			with_circuit_breaker('search', 'linkup', () =>
+				Promise.reject(new Error('query timed out in the index')),
+			),
+		).rejects.toThrow();
+		expect(get_open_circuit('search', 'linkup')).toBeUndefined();
+
+		await expect(
+			with_circuit_breaker('search', 'linkup', () =>
+				Promise.reject(
+					new DOMException('The operation timed out', 'TimeoutError'),
+				),
+			),
+		).rejects.toThrow();
+		expect(get_open_circuit('search', 'linkup')).toBeDefined();
+	});
+
+	it('leaves a half-open circuit alone when the caller cancels', async () => {
+		vi.useFakeTimers();
+		circuit_breaker_config.cooldown_ms = 1000;
+		await trip('serpapi');
+		vi.advanceTimersByTime(1000);
+
+		// The provider wraps the abort reason, as handle_provider_error
+		// does with errors it does not recognize
+		const controller = new AbortController();
+		const reason = new Error('client went away');
+		const probe = with_circuit_breaker(
+			'search',
+			'serpapi',
+			() =>
+				new Promise<never>((_, reject) =>
+					controller.signal.addEventListener('abort', () =>
+						reject(
+							new ProviderError(
+								ErrorType.API_ERROR,
+								`Failed to search: ${reason.message}`,
+								'serpapi',
+							),
+						),
+					),
+				),
+			controller.signal,
+		);
+		controller.abort(reason);
+
+		await expect(probe).rejects.toBe(reason);
+		expect(get_circuit_statuses()['search.serpapi'].state).toBe(
+			'half_open',
+		);
+	});
+});
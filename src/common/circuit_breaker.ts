@@ -0,0 +1,168 @@
+// Per-provider circuit breaker: stop calling providers that keep failing
+
+import { circuit_breaker_config } from '../config/env.js';
+import { ErrorType, ProviderError, provider_key } from './types.js';
+import { is_abort_error, is_network_error } from './utils.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+interface Circuit {
+	state: CircuitState;
+	consecutive_failures: number;
+	opened_at?: number;
+	probe_in_flight: boolean;
+}
+
+export interface CircuitStatus {
+	state: CircuitState;
+	consecutive_failures: number;
+	opened_at?: string;
+	retry_at?: string;
+}
+
+const circuits = new Map<string, Circuit>();
+
+// Keyed by category.name so a provider name shared across categories
+// (perplexity) gets a circuit per category
+const get_circuit = (key: string): Circuit => {
+	let circuit = circuits.get(key);
+	if (!circuit) {
+		circuit = {
+			state: 'closed',
+			consecutive_failures: 0,
+			probe_in_flight: false,
+		};
+		circuits.set(key, circuit);
+	}
+	return circuit;
+};
+
+// Only outages count: upstream 5xx (PROVIDER_ERROR), timeouts and
+// network failures. Auth, input and rate-limit errors mean the
+// provider is reachable.
+const is_outage_error = (error: unknown): boolean =>
+	error instanceof ProviderError
+		? error.type === ErrorType.PROVIDER_ERROR
+		: is_network_error(error);
+
+// Move an open circuit to half-open once its cooldown has passed
+const refresh_state = (circuit: Circuit) => {
+	if (
+		circuit.state === 'open' &&
+		Date.now() - (circuit.opened_at ?? 0) >=
+			circuit_breaker_config.cooldown_ms
+	) {
+		circuit.state = 'half_open';
+	}
+};
+
+/**
+ * Check whether calls to a provider are currently being short-circuited
+ * @param category Provider category
+ * @param provider Sub-provider name
+ * @returns A reason string while the circuit rejects calls, otherwise undefined
+ */
+export const get_open_circuit = (
+	category: string,
+	provider: string,
+): string | undefined => {
+	const circuit = circuits.get(provider_key(category, provider));
+	if (!circuit) return undefined;
+	refresh_state(circuit);
+	if (circuit.state === 'open') {
+		const retry_at = new Date(
+			(circuit.opened_at ?? 0) + circuit_breaker_config.cooldown_ms,
+		);
+		return `Circuit open after ${circuit.consecutive_failures} consecutive failures; retrying after ${retry_at.toISOString()}`;
+	}
+	if (circuit.state === 'half_open' && circuit.probe_in_flight) {
+		return 'Circuit half-open; a probe request is in flight';
+	}
+	return undefined;
+};
+
+/**
+ * Run a provider call through its circuit breaker. The circuit opens
+ * after N consecutive outage failures, rejects calls during the
+ * cooldown, then lets a single probe through (half-open) to decide
+ * whether to close again.
+ * @param category Provider category
+ * @param provider Sub-provider name
+ * @param fn The provider call (including any retries)
+ * @param signal Caller's cancellation signal, if any
+ * @returns The call's result
+ * @throws ProviderError PROVIDER_ERROR while the circuit is open
+ */
+export const with_circuit_breaker = async <T>(
+	category: string,
+	provider: string,
+	fn: () => Promise<T>,
+	signal?: AbortSignal,
+): Promise<T> => {
+	const open_reason = get_open_circuit(category, provider);
+	if (open_reason) {
+		throw new ProviderError(
+			ErrorType.PROVIDER_ERROR,
+			`${provider} unavailable: ${open_reason}`,
+			provider,
+		);
+	}
+
+	const circuit = get_circuit(provider_key(category, provider));
+	const is_probe = circuit.state === 'half_open';
+	if (is_probe) circuit.probe_in_flight = true;
+
+	try {
+		const result = await fn();
+		circuit.state = 'closed';
+		circuit.consecutive_failures = 0;
+		return result;
+	} catch (error) {
+		// A caller cancellation says nothing about the provider's health.
+		// Providers may wrap an abort reason that is not an AbortError,
+		// so the caller gets the reason itself back.
+		if (signal?.aborted) throw signal.reason;
+		if (is_abort_error(error)) throw error;
+		if (is_outage_error(error)) {
+			circuit.consecutive_failures++;
+			if (
+				is_probe ||
+				circuit.consecutive_failures >=
+					circuit_breaker_config.threshold
+			) {
+				circuit.state = 'open';
+				circuit.opened_at = Date.now();
+			}
+		} else if (is_probe) {
+			// The provider answered, so it is reachable again
+			circuit.state = 'closed';
+			circuit.consecutive_failures = 0;
+		}
+		throw error;
+	} finally {
+		if (is_probe) circuit.probe_in_flight = false;
+	}
+};
+
+export const get_circuit_statuses = (): Record<
+	string,
+	CircuitStatus
+> => {
+	const statuses: Record<string, CircuitStatus> = {};
+	for (const [provider, circuit] of circuits) {
+		refresh_state(circuit);
+		statuses[provider] = {
+			state: circuit.state,
+			consecutive_failures: circuit.consecutive_failures,
+			...(circuit.state !== 'closed' && circuit.opened_at
+				? {
+						opened_at: new Date(circuit.opened_at).toISOString(),
+						retry_at: new Date(
+							circuit.opened_at + circuit_breaker_config.cooldown_ms,
+						).toISOString(),
+					}
+				: {}),
+		};
+	}
+	return statuses;
+};
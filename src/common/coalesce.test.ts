@@ -0,0 +1,149 @@
+import { describe, expect, it, vi } from 'vitest';
+import { coalesce } from './coalesce.js';
+
+const deferred = <T>() => {
+	let resolve!: (value: T) => void;
+	let reject!: (reason: unknown) => void;
+	const promise = new Promise<T>((res, rej) => {
+		resolve = res;
+		reject = rej;
+	});
+	return { promise, resolve, reject };
+};
+
+describe('coalesce', () => {
+	it('shares one upstream call between concurrent callers', async () => {
+		const upstream = deferred<string>();
+		const fn = vi.fn(() => upstream.promise);
+
+		const waiters = [
+			coalesce('shared', fn),
+			coalesce('shared', fn),
+			coalesce('shared', fn),
+		];
+		upstream.resolve('result');
+
+		expect(await Promise.all(waiters)).toEqual([
+			'result',
+			'result',
+			'result',
+		]);
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it('gives every waiter the same rejection, then runs again', async () => {
+		const fn = vi
+			.fn<() => Promise<string>>()
+			.mockRejectedValueOnce(new Error('upstream failed'))
+			.mockResolvedValueOnce('retried');
+
+		const waiters = [
+			coalesce('failing', fn),
+			coalesce('failing', fn),
+		];
+		for (const waiter of waiters) {
+			await expect(waiter).rejects.toThrow('upstream failed');
+		}
+
+		expect(await coalesce('failing', fn)).toBe('retried');
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	it('passes a synchronous throw to the waiters', async () => {
+		await expect(
+			coalesce('throws', () => {
+				throw new Error('bad input');
+			}),
+		).rejects.toThrow('bad input');
+	});
+
+	it('keeps different keys apart', async () => {
+		const fn = vi.fn(async () => 'result');
+		await Promise.all([coalesce('a', fn), coalesce('b', fn)]);
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+
+	it('aborts the shared call only when every waiter has cancelled', async () => {
+		const upstream = deferred<string>();
+		let shared_signal!: AbortSignal;
+		const fn = vi.fn((signal: AbortSignal) => {
+			shared_signal = signal;
+			return upstream.promise;
+		});
+		const first = new AbortController();
+		const second = new AbortController();
+
+		const waiters = [
+			coalesce('cancelled', fn, first.signal),
+			coalesce('cancelled', fn, second.signal),
+		];
+		first.abort(new Error('first cancelled'));
+		await expect(waiters[0]).rejects.toThrow('first cancelled');
+		expect(shared_signal.aborted).toBe(false);
+
+		second.abort(new Error('second cancelled'));
+		await expect(waiters[1]).rejects.toThrow('second cancelled');
+		expect(shared_signal.aborted).toBe(true);
+
+		// The aborted call is no longer joined by new callers
+		const fresh = coalesce('cancelled', async () => 'fresh');
+		upstream.resolve('stale');
+		expect(await fresh).toBe('fresh');
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it('keeps the shared call alive for the remaining waiters', async () => {
+		const upstream = deferred<string>();
+		let shared_signal!: AbortSignal;
+		const fn = (signal: AbortSignal) => {
+			shared_signal = signal;
+			return upstream.promise;
+		};
+		const cancelled = new AbortController();
+		const staying = new AbortController();
+
+		const waiters = [
+			coalesce('partial', fn, cancelled.signal),
+			coalesce('partial', fn, staying.signal),
+			coalesce('partial', fn, cancelled.signal),
+		];
+		cancelled.abort(new Error('cancelled'));
+		upstream.resolve('result');
+
+		await expect(waiters[0]).rejects.toThrow('cancelled');
+		await expect(waiters[2]).rejects.toThrow('cancelled');
+		expect(await waiters[1]).toBe('result');
+		expect(shared_signal.aborted).toBe(false);
+	});
+
+	it('never aborts a call joined by a waiter without a signal', async () => {
+		const upstream = deferred<string>();
+		let shared_signal!: AbortSignal;
+		const fn = (signal: AbortSignal) => {
+			shared_signal = signal;
+			return upstream.promise;
+		};
+		const controller = new AbortController();
+
+		const cancellable = coalesce('pinned', fn, controller.signal);
+		const pinned = coalesce('pinned', fn);
+		controller.abort(new Error('cancelled'));
+		await expect(cancellable).rejects.toThrow('cancelled');
+		expect(shared_signal.aborted).toBe(false);
+
+		upstream.resolve('result');
+		expect(await pinned).toBe('result');
+	});
+
+	it('rejects at once when the signal is already aborted', async () => {
+		const fn = vi.fn(async (signal: AbortSignal) => signal.aborted);
+
+		await expect(
+			coalesce(
+				'aborted',
+				fn,
+				AbortSignal.abort(new Error('too late')),
+			),
+		).rejects.toThrow('too late');
+	});
+});
@@ -0,0 +1,75 @@
+// In-flight request coalescing: identical concurrent calls share one upstream promise
+
+interface InFlight {
+	promise: Promise<unknown>;
+	controller: AbortController;
+	// Waiters that can still cancel; the shared call is aborted only
+	// when every one of them has
+	cancellable_waiters: number;
+	// Set once a waiter without a signal joins, so the call never aborts
+	pinned: boolean;
+}
+
+const in_flight = new Map<string, InFlight>();
+
+/**
+ * Run fn, or join the identical call already in flight under this key.
+ * Every waiter receives the same value or the same rejection. A waiter
+ * whose signal aborts stops waiting at once; the shared call itself is
+ * only aborted after all of its waiters have cancelled.
+ * @param key Identity of the call (category, provider, operation and
+ * parameters)
+ * @param fn The upstream call, given the shared call's signal
+ * @param signal The waiter's cancellation signal
+ * @returns The shared result
+ */
+export const coalesce = <T>(
+	key: string,
+	fn: (signal: AbortSignal) => Promise<T>,
+	signal?: AbortSignal,
+): Promise<T> => {
+	let entry = in_flight.get(key);
+	if (!entry) {
+		const controller = new AbortController();
+		const created: InFlight = {
+			// Wrapped so a synchronous throw also reaches every waiter
+			promise: new Promise<T>((resolve) =>
+				resolve(fn(controller.signal)),
+			).finally(() => {
+				if (in_flight.get(key) === created) in_flight.delete(key);
+			}),
+			controller,
+			cancellable_waiters: 0,
+			pinned: false,
+		};
+		in_flight.set(key, created);
+		entry = created;
+	}
+
+	const shared = entry;
+	const promise = shared.promise as Promise<T>;
+	if (!signal) {
+		shared.pinned = true;
+		return promise;
+	}
+
+	shared.cancellable_waiters++;
+	return new Promise<T>((resolve, reject) => {
+		const on_abort = () => {
+			reject(signal.reason);
+			if (--shared.cancellable_waiters === 0 && !shared.pinned) {
+				// Later callers start a fresh call instead of joining this one
+				if (in_flight.get(key) === shared) in_flight.delete(key);
+				shared.controller.abort(signal.reason);
+			}
+		};
+		if (signal.aborted) {
+			on_abort();
+			return;
+		}
+		signal.addEventListener('abort', on_abort, { once: true });
+		promise
+			.then(resolve, reject)
+			.finally(() => signal.removeEventListener('abort', on_abort));
+	});
+};
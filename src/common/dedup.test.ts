@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+	cluster_near_duplicates,
+	hamming_distance,
+	simhash,
+} from './dedup.js';
+
+const story =
+	'The city council approved a new budget on Tuesday that increases funding for public parks, libraries and road repairs across every district in the region';
+
+const result = (
+	url: string,
+	snippet: string,
+	provider = 'tavily',
+) => ({
+	title: 'Council approves new budget',
+	url,
+	snippets: [snippet],
+	source_providers: [provider],
+});
+
+describe('simhash', () => {
+	it('ignores case, punctuation and markup', () => {
+		expect(simhash(story)).toBe(
+			simhash(`<p>${story.toUpperCase().replace(/,/g, ' ;')}</p>`),
+		);
+	});
+
+	it('skips texts too short to fingerprint', () => {
+		expect(simhash('five words are too few')).toBeUndefined();
+		expect(simhash('six words are just about enough')).toBeTypeOf(
+			'bigint',
+		);
+	});
+});
+
+describe('hamming_distance', () => {
+	it('counts differing bits', () => {
+		expect(hamming_distance(0b1011n, 0b0001n)).toBe(2);
+		expect(hamming_distance(1n << 63n, 0n)).toBe(1);
+	});
+});
+
+describe('cluster_near_duplicates', () => {
+	it('collapses syndicated copies into the first result', () => {
+		const clustered = cluster_near_duplicates([
+			result('https://a.com/budget', story),
+			result('https://other.org/story', 'Something else entirely'),
+			result('https://b.com/budget', `<b>${story}</b>`, 'brave'),
+			result(
+				'https://c.com/frogs',
+				'Researchers discovered a previously unknown species of frog living high in the cloud forests of northern Peru',
+			),
+		]);
+
+		expect(clustered.map((r) => r.url)).toEqual([
+			'https://a.com/budget',
+			'https://other.org/story',
+			'https://c.com/frogs',
+		]);
+		expect(clustered[0].also_at).toEqual([
+			{ url: 'https://b.com/budget', source_providers: ['brave'] },
+		]);
+		expect(clustered[1].also_at).toBeUndefined();
+	});
+
+	it('only clusters edited copies within the distance threshold', () => {
+		const results = [
+			result('https://a.com/budget', story),
+			result(
+				'https://b.com/budget',
+				story.replace('Tuesday', 'Wednesday'),
+			),
+		];
+
+		expect(cluster_near_duplicates(results)).toHaveLength(2);
+		expect(cluster_near_duplicates(results, 8)).toHaveLength(1);
+	});
+
+	it('never clusters results too short to fingerprint', () => {
+		const results = [
+			result('https://a.com', 'Budget'),
+			result('https://b.com', 'Budget'),
+		];
+		results.forEach((r) => (r.title = ''));
+
+		expect(cluster_near_duplicates(results)).toHaveLength(2);
+	});
+});
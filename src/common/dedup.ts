@@ -0,0 +1,124 @@
+// Near-duplicate detection for fused search results (SimHash over word shingles)
+
+export interface AlternateLocation {
+	url: string;
+	source_providers: string[];
+}
+
+interface ClusterableResult {
+	title: string;
+	url: string;
+	snippets: string[];
+	source_providers: string[];
+}
+
+export type ClusteredResult<T> = T & {
+	also_at?: AlternateLocation[];
+};
+
+// Max differing bits between fingerprints to count as near-duplicates
+export const DEFAULT_SIMHASH_DISTANCE = 3;
+
+const SHINGLE_SIZE = 3;
+// Below this many words a fingerprint is too noisy to compare
+const MIN_TOKENS = 6;
+
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = (1n << 64n) - 1n;
+
+const fnv1a_64 = (text: string): bigint => {
+	let hash = FNV_OFFSET;
+	for (let i = 0; i < text.length; i++) {
+		hash ^= BigInt(text.charCodeAt(i));
+		hash = (hash * FNV_PRIME) & MASK_64;
+	}
+	return hash;
+};
+
+const tokenize = (text: string): string[] =>
+	text
+		.toLowerCase()
+		.replace(/<[^>]+>/g, ' ')
+		.split(/[^\p{L}\p{N}]+/u)
+		.filter(Boolean);
+
+/**
+ * Compute a 64-bit SimHash fingerprint of a text's word shingles
+ * @param text Text to fingerprint
+ * @returns The fingerprint, or undefined if the text is too short
+ */
+export const simhash = (text: string): bigint | undefined => {
+	const tokens = tokenize(text);
+	if (tokens.length < MIN_TOKENS) return undefined;
+
+	const weights = new Array<number>(64).fill(0);
+	for (let i = 0; i + SHINGLE_SIZE <= tokens.length; i++) {
+		const hash = fnv1a_64(
+			tokens.slice(i, i + SHINGLE_SIZE).join(' '),
+		);
+		for (let bit = 0; bit < 64; bit++) {
+			weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+		}
+	}
+
+	let fingerprint = 0n;
+	for (let bit = 0; bit < 64; bit++) {
+		if (weights[bit] > 0) fingerprint |= 1n << BigInt(bit);
+	}
+	return fingerprint;
+};
+
+export const hamming_distance = (a: bigint, b: bigint): number => {
+	let diff = a ^ b;
+	let count = 0;
+	while (diff) {
+		diff &= diff - 1n;
+		count++;
+	}
+	return count;
+};
+
+/**
+ * Collapse near-duplicate results (syndicated copies, mirrors, paginated
+ * variants) into the highest-ranked member of each cluster
+ * @param results Results in ranked order
+ * @param max_distance Max Hamming distance between fingerprints
+ * @returns Cluster heads in the original order; collapsed results are
+ * listed under `also_at`
+ */
+export const cluster_near_duplicates = <T extends ClusterableResult>(
+	results: T[],
+	max_distance: number = DEFAULT_SIMHASH_DISTANCE,
+): ClusteredResult<T>[] => {
+	const heads: Array<{
+		result: ClusteredResult<T>;
+		fingerprint?: bigint;
+	}> = [];
+
+	for (const result of results) {
+		const fingerprint = simhash(
+			`${result.title} ${result.snippets.join(' ')}`,
+		);
+		const head =
+			fingerprint === undefined
+				? undefined
+				: heads.find(
+						(h) =>
+							h.fingerprint !== undefined &&
+							hamming_distance(h.fingerprint, fingerprint) <=
+								max_distance,
+					);
+
+		if (head) {
+			(head.result.also_at ??= []).push({
+				url: result.url,
+				source_providers: result.source_providers,
+			});
+		} else {
+			heads.push({ result: { ...result }, fingerprint });
+		}
+	}
+
+	return heads.map((h) => h.result);
+};
@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { timeout_config } from '../config/env.js';
+import {
+	cancel_firecrawl_job,
+	poll_firecrawl_job,
+} from './firecrawl_utils.js';
+
+const status_url = 'https://api.firecrawl.dev/v1/crawl/job-1';
+const default_timeout_config = structuredClone(timeout_config);
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+	Object.assign(
+		timeout_config,
+		structuredClone(default_timeout_config),
+	);
+});
+
+describe('poll_firecrawl_job', () => {
+	it('cancels the job when polling runs out of attempts', async () => {
+		const fetch = vi.fn(
+			async () =>
+				new Response(
+					JSON.stringify({ success: true, status: 'scraping' }),
+				),
+		);
+		vi.stubGlobal('fetch', fetch);
+
+		await expect(
+			poll_firecrawl_job({
+				provider_name: 'firecrawl_crawl',
+				status_url,
+				api_key: 'key',
+				max_attempts: 2,
+				poll_interval: 0,
+				timeout: 1000,
+			}),
+		).rejects.toThrow('Job timed out');
+
+		await vi.waitFor(() =>
+			expect(fetch).toHaveBeenCalledWith(
+				status_url,
+				expect.objectContaining({ method: 'DELETE' }),
+			),
+		);
+	});
+
+	it('returns a job that completed without data and does not cancel it', async () => {
+		const fetch = vi.fn(
+			async () =>
+				new Response(
+					JSON.stringify({ success: true, status: 'completed' }),
+				),
+		);
+		vi.stubGlobal('fetch', fetch);
+
+		await expect(
+			poll_firecrawl_job({
+				provider_name: 'firecrawl_extract',
+				status_url,
+				api_key: 'key',
+				max_attempts: 5,
+				poll_interval: 0,
+				timeout: 1000,
+			}),
+		).resolves.toEqual({ success: true, status: 'completed' });
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(fetch).not.toHaveBeenCalledWith(
+			status_url,
+			expect.objectContaining({ method: 'DELETE' }),
+		);
+	});
+});
+
+describe('cancel_firecrawl_job', () => {
+	it('gives up on the cancel request after the provider timeout', async () => {
+		timeout_config.overrides.firecrawl_crawl = 20;
+		const fetch = vi.fn(
+			(_url: string, init: RequestInit) =>
+				new Promise<Response>((_, reject) =>
+					init.signal?.addEventListener('abort', () =>
+						reject(init.signal?.reason),
+					),
+				),
+		);
+		vi.stubGlobal('fetch', fetch);
+
+		// Would hang for the 60s configured default without the override
+		await cancel_firecrawl_job({
+			provider_name: 'firecrawl_crawl',
+			status_url,
+			api_key: 'key',
+			max_attempts: 1,
+			poll_interval: 0,
+			timeout: 60000,
+		});
+		expect(fetch).toHaveBeenCalledWith(
+			status_url,
+			expect.objectContaining({ method: 'DELETE' }),
+		);
+	});
+});
@@ -1,7 +1,9 @@
 import { http_json } from './http.js';
+import { logger } from './logger.js';
 import { ErrorType, ProviderError } from './types.js';
 import {
 	aggregate_url_results as aggregate_url_results_common,
+	delay,
 	validate_processing_urls,
 	type ProcessedUrlResult as ProcessedUrlResultCommon,
 } from './utils.js';
@@ -22,6 +24,7 @@ export const make_firecrawl_request = async <T>(
 	api_key: string,
 	body: Record<string, any>,
 	timeout: number,
+	signal?: AbortSignal,
 ): Promise<T> => {
 	return http_json<T>(provider_name, base_url, {
 		method: 'POST',
@@ -30,13 +33,16 @@ export const make_firecrawl_request = async <T>(
 			'Content-Type': 'application/json',
 		},
 		body: JSON.stringify(body),
-		signal: AbortSignal.timeout(timeout),
+		signal,
+		timeout,
 	});
 };
 
 /**
  * Check Firecrawl response for errors
- * Throws ProviderError if response indicates failure
+ * Throws ProviderError if response indicates failure. A failure
+ * reported in a 2xx body is about the request itself (bad URL, page
+ * blocked), so it is an API_ERROR and not retried.
  */
 export const validate_firecrawl_response = (
 	data: { success: boolean; error?: string },
@@ -45,7 +51,7 @@ export const validate_firecrawl_response = (
 ): void => {
 	if (!data.success || data.error) {
 		throw new ProviderError(
-			ErrorType.PROVIDER_ERROR,
+			ErrorType.API_ERROR,
 			`${error_message}: ${data.error || 'Unknown error'}`,
 			provider_name,
 		);
@@ -72,11 +78,37 @@ export interface PollingConfig {
 	max_attempts: number;
 	poll_interval: number;
 	timeout: number;
+	// Stops polling when the caller cancels
+	signal?: AbortSignal;
 }
 
+/**
+ * Ask Firecrawl to stop a job nobody is waiting for anymore. Best
+ * effort: failures are logged, not thrown. The caller's signal is
+ * usually already aborted, so only the provider's timeout applies.
+ */
+export const cancel_firecrawl_job = async (
+	config: PollingConfig,
+): Promise<void> => {
+	try {
+		await http_json(config.provider_name, config.status_url, {
+			method: 'DELETE',
+			headers: { Authorization: `Bearer ${config.api_key}` },
+			timeout: config.timeout,
+		});
+	} catch (error) {
+		logger.warn('Failed to cancel job', {
+			provider: config.provider_name,
+			error,
+		});
+	}
+};
+
 /**
  * Poll a Firecrawl job until completion
- * Returns the completed status response or throws on error/timeout
+ * Returns the completed status response, whose data may be empty, or
+ * throws on error/timeout.
+ * The remote job is cancelled when polling gives up or is aborted.
  */
 export const poll_firecrawl_job = async <
 	T extends {
@@ -88,53 +120,71 @@ export const poll_firecrawl_job = async <
 >(
 	config: PollingConfig,
 ): Promise<T> => {
-	let attempts = 0;
+	// Stop the remote job as well if the caller cancels mid-poll
+	const on_abort = () => {
+		void cancel_firecrawl_job(config);
+	};
+	if (config.signal?.aborted) on_abort();
+	config.signal?.addEventListener('abort', on_abort, { once: true });
 
-	while (attempts < config.max_attempts) {
-		attempts++;
-		await new Promise((resolve) =>
-			setTimeout(resolve, config.poll_interval),
-		);
+	try {
+		let attempts = 0;
 
-		let status_result: T;
-		try {
-			status_result = await http_json<T>(
-				config.provider_name,
-				config.status_url,
-				{
-					method: 'GET',
-					headers: { Authorization: `Bearer ${config.api_key}` },
-					signal: AbortSignal.timeout(config.timeout),
-				},
-			);
-		} catch {
-			continue; // skip this poll attempt on transient HTTP errors
-		}
+		while (attempts < config.max_attempts) {
+			attempts++;
+			await delay(config.poll_interval, config.signal);
 
-		if (!status_result.success) {
-			throw new ProviderError(
-				ErrorType.PROVIDER_ERROR,
-				`Error checking job status: ${status_result.error || 'Unknown error'}`,
-				config.provider_name,
-			);
-		}
+			let status_result: T;
+			try {
+				status_result = await http_json<T>(
+					config.provider_name,
+					config.status_url,
+					{
+						method: 'GET',
+						headers: { Authorization: `Bearer ${config.api_key}` },
+						signal: config.signal,
+						timeout: config.timeout,
+					},
+				);
+			} catch (error) {
+				if (config.signal?.aborted) throw error;
+				continue; // skip this poll attempt on transient HTTP errors
+			}
+
+			// Failures reported in the body are not retried, like
+			// validate_firecrawl_response
+			if (!status_result.success) {
+				void cancel_firecrawl_job(config);
+				throw new ProviderError(
+					ErrorType.API_ERROR,
+					`Error checking job status: ${status_result.error || 'Unknown error'}`,
+					config.provider_name,
+				);
+			}
+
+			// A job that completed without data is finished too; callers
+			// report the empty result, and there is nothing to cancel
+			if (status_result.status === 'completed') {
+				return status_result;
+			} else if (status_result.status === 'error') {
+				throw new ProviderError(
+					ErrorType.API_ERROR,
+					`Job failed: ${status_result.error || 'Unknown error'}`,
+					config.provider_name,
+				);
+			}
 
-		if (status_result.status === 'completed' && status_result.data) {
-			return status_result;
-		} else if (status_result.status === 'error') {
-			throw new ProviderError(
-				ErrorType.PROVIDER_ERROR,
-				`Job failed: ${status_result.error || 'Unknown error'}`,
-				config.provider_name,
-			);
+			// If still processing, continue polling
 		}
 
-		// If still processing, continue polling
+		// Nobody will collect the result, so stop the job using credits
+		void cancel_firecrawl_job(config);
+		throw new ProviderError(
+			ErrorType.PROVIDER_ERROR,
+			'Job timed out - try again later or with a smaller scope',
+			config.provider_name,
+		);
+	} finally {
+		config.signal?.removeEventListener('abort', on_abort);
 	}
-
-	throw new ProviderError(
-		ErrorType.PROVIDER_ERROR,
-		'Job timed out - try again later or with a smaller scope',
-		config.provider_name,
-	);
 };
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RRF_K, fuse_results } from './fusion.js';
+import { SearchResult } from './types.js';
+
+const result = (
+	url: string,
+	source_provider: string,
+	score?: number,
+): SearchResult => ({
+	title: url,
+	url,
+	snippet: `${url} from ${source_provider}`,
+	source_provider,
+	...(score !== undefined ? { score } : {}),
+});
+
+const scores = (fused: ReturnType<typeof fuse_results>) =>
+	Object.fromEntries(fused.map((r) => [r.url, r.score]));
+
+describe('fuse_results', () => {
+	const lists = new Map([
+		['tavily', [result('a', 'tavily'), result('b', 'tavily')]],
+		['brave', [result('b', 'brave'), result('c', 'brave')]],
+	]);
+
+	it('sums reciprocal ranks with RRF', () => {
+		const k = DEFAULT_RRF_K;
+		const fused = fuse_results(lists, { strategy: 'rrf' });
+
+		expect(fused.map((r) => r.url)).toEqual(['b', 'a', 'c']);
+		expect(fused[0].score).toBeCloseTo(1 / (k + 2) + 1 / (k + 1));
+		expect(fused[1].score).toBeCloseTo(1 / (k + 1));
+		expect(fused[2].score).toBeCloseTo(1 / (k + 2));
+		expect(fused[0].source_providers).toEqual(['tavily', 'brave']);
+		expect(fused[0].rank_breakdown).toEqual({
+			tavily: { rank: 2, contribution: 1 / (k + 2) },
+			brave: { rank: 1, contribution: 1 / (k + 1) },
+		});
+	});
+
+	it('applies per-provider weights and a custom RRF constant', () => {
+		const fused = fuse_results(lists, {
+			strategy: 'rrf',
+			rrf_k: 0,
+			weights: { brave: 2 },
+		});
+
+		expect(scores(fused)).toEqual({
+			a: 1,
+			b: 1 / 2 + 2,
+			c: 1,
+		});
+	});
+
+	it('normalizes scores for CombSUM and CombMNZ', () => {
+		// tavily scores normalize to 1, 0.5 and 0; brave has no scores
+		// so its ranks stand in as 1 and 0.5
+		const scored = new Map([
+			[
+				'tavily',
+				[
+					result('b', 'tavily', 5),
+					result('a', 'tavily', 10),
+					result('c', 'tavily', 0),
+				],
+			],
+			['brave', [result('c', 'brave'), result('a', 'brave')]],
+		]);
+
+		expect(
+			scores(fuse_results(scored, { strategy: 'combsum' })),
+		).toEqual({ a: 1.5, b: 0.5, c: 1 });
+		expect(
+			scores(fuse_results(scored, { strategy: 'combmnz' })),
+		).toEqual({ a: 3, b: 0.5, c: 2 });
+	});
+
+	it('awards Borda points over every candidate URL', () => {
+		expect(
+			scores(fuse_results(lists, { strategy: 'borda' })),
+		).toEqual({ a: 3, b: 5, c: 2 });
+	});
+
+	it('counts only the best rank when a provider repeats a URL', () => {
+		const fused = fuse_results(
+			new Map([
+				['tavily', [result('a', 'tavily'), result('a', 'tavily')]],
+			]),
+			{ strategy: 'rrf', rrf_k: 0 },
+		);
+
+		expect(fused).toHaveLength(1);
+		expect(fused[0].score).toBe(1);
+		expect(fused[0].snippets).toEqual(['a from tavily']);
+	});
+
+	it('merges URLs that share a key and keeps the first one seen', () => {
+		const fused = fuse_results(
+			new Map([
+				[
+					'tavily',
+					[result('https://a.com/x?utm_source=t', 'tavily')],
+				],
+				['brave', [result('https://a.com/x', 'brave')]],
+			]),
+			{ strategy: 'rrf', rrf_k: 0, key: (url) => url.split('?')[0] },
+		);
+
+		expect(fused).toHaveLength(1);
+		expect(fused[0].url).toBe('https://a.com/x?utm_source=t');
+		expect(fused[0].source_providers).toEqual(['tavily', 'brave']);
+		expect(fused[0].score).toBe(2);
+	});
+});
@@ -0,0 +1,169 @@
+// Result fusion strategies for merging ranked lists from multiple providers
+
+import { SearchResult } from './types.js';
+
+export const FUSION_STRATEGIES = [
+	'rrf',
+	'combsum',
+	'combmnz',
+	'borda',
+] as const;
+
+export type FusionStrategy = (typeof FUSION_STRATEGIES)[number];
+
+export const is_fusion_strategy = (
+	value: unknown,
+): value is FusionStrategy =>
+	typeof value === 'string' &&
+	(FUSION_STRATEGIES as readonly string[]).includes(value);
+
+// Reciprocal Rank Fusion constant (standard value from literature)
+export const DEFAULT_RRF_K = 60;
+
+export interface FusionOptions {
+	strategy: FusionStrategy;
+	// Per-provider multipliers; providers not listed get 1
+	weights?: Record<string, number>;
+	rrf_k?: number;
+	// Maps a URL to its dedup key (e.g. canonicalize_url); defaults to the raw URL
+	key?: (url: string) => string;
+}
+
+export interface ProviderRank {
+	rank: number; // 1-based position in the provider's own list
+	score?: number; // raw provider score, when the provider returns one
+	contribution: number; // what this provider added to the fused score
+}
+
+export interface FusedResult {
+	title: string;
+	url: string;
+	snippets: string[];
+	source_providers: string[];
+	score: number;
+	rank_breakdown: Record<string, ProviderRank>;
+}
+
+interface RankedEntry {
+	result: SearchResult;
+	rank: number;
+	normalized_score: number;
+}
+
+// Rank each provider's results by its own score and min-max normalize
+// those scores to [0, 1]. Providers without usable scores fall back to
+// a rank-derived score so they still participate in CombSUM/CombMNZ.
+const rank_provider_results = (
+	results: SearchResult[],
+): RankedEntry[] => {
+	const ranked = [...results].sort(
+		(a, b) => (b.score ?? 0) - (a.score ?? 0),
+	);
+	const scores = ranked
+		.map((r) => r.score)
+		.filter((s): s is number => typeof s === 'number');
+	const min = Math.min(...scores);
+	const max = Math.max(...scores);
+	const has_scores = scores.length === ranked.length && max > min;
+
+	return ranked.map((result, index) => ({
+		result,
+		rank: index + 1,
+		normalized_score: has_scores
+			? (result.score! - min) / (max - min)
+			: (ranked.length - index) / ranked.length,
+	}));
+};
+
+/**
+ * Fuse per-provider result lists into one deduplicated ranking
+ * @param results_by_provider Each provider's results in any order
+ * @param options Strategy, per-provider weights and RRF constant
+ * @returns Fused results sorted by descending score, with a per-provider
+ * rank breakdown explaining each score
+ */
+export const fuse_results = (
+	results_by_provider: Map<string, SearchResult[]>,
+	options: FusionOptions,
+): FusedResult[] => {
+	const {
+		strategy,
+		weights = {},
+		rrf_k = DEFAULT_RRF_K,
+		key = (url: string) => url,
+	} = options;
+
+	const ranked_by_provider = new Map<string, RankedEntry[]>();
+	const candidates = new Set<string>();
+	for (const [provider_name, results] of results_by_provider) {
+		const ranked = rank_provider_results(results);
+		ranked_by_provider.set(provider_name, ranked);
+		for (const entry of ranked) candidates.add(key(entry.result.url));
+	}
+
+	const fused = new Map<string, FusedResult>();
+	for (const [provider_name, ranked] of ranked_by_provider) {
+		const weight = weights[provider_name] ?? 1;
+
+		for (const { result, rank, normalized_score } of ranked) {
+			let contribution: number;
+			switch (strategy) {
+				case 'combsum':
+				case 'combmnz':
+					contribution = weight * normalized_score;
+					break;
+				case 'borda':
+					contribution = weight * (candidates.size - rank + 1);
+					break;
+				case 'rrf':
+				default:
+					contribution = weight / (rrf_k + rank);
+					break;
+			}
+
+			// The first URL seen for a key is the one returned
+			const result_key = key(result.url);
+			if (!fused.has(result_key)) {
+				fused.set(result_key, {
+					title: result.title,
+					url: result.url,
+					snippets: result.snippet ? [result.snippet] : [],
+					source_providers: [provider_name],
+					score: 0,
+					rank_breakdown: {},
+				});
+			}
+			const entry = fused.get(result_key)!;
+
+			// A provider can list the same URL twice; only its best rank counts
+			if (entry.rank_breakdown[provider_name]) continue;
+
+			entry.rank_breakdown[provider_name] = {
+				rank,
+				...(result.score !== undefined
+					? { score: result.score }
+					: {}),
+				contribution,
+			};
+			entry.score += contribution;
+			if (!entry.source_providers.includes(provider_name)) {
+				entry.source_providers.push(provider_name);
+			}
+			if (
+				result.snippet &&
+				!entry.snippets.includes(result.snippet)
+			) {
+				entry.snippets.push(result.snippet);
+			}
+		}
+	}
+
+	// CombMNZ rewards agreement: multiply by the number of providers that returned it
+	if (strategy === 'combmnz') {
+		for (const entry of fused.values()) {
+			entry.score *= entry.source_providers.length;
+		}
+	}
+
+	return Array.from(fused.values()).sort((a, b) => b.score - a.score);
+};
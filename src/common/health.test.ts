@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { health_config } from '../config/env.js';
+import { get_configured_providers } from '../providers/manifest.js';
+import { get_provider_probes, get_readiness } from './health.js';
+
+// Keys are read when the config module loads
+vi.hoisted(() => {
+	process.env.TAVILY_API_KEY = 'test';
+	process.env.BRAVE_API_KEY = 'test';
+});
+
+const default_health_config = { ...health_config };
+const providers = get_configured_providers();
+
+const stub_fetch = (status_by_origin: Record<string, number>) => {
+	const fetch = vi.fn(async (origin: string) => {
+		const status = status_by_origin[origin];
+		if (status === undefined) throw new Error('connect ECONNREFUSED');
+		return new Response(null, { status });
+	});
+	vi.stubGlobal('fetch', fetch);
+	return fetch;
+};
+
+// Probe results are kept per module, so each test that probes starts
+// a day after the last one
+let day = 0;
+const skip_past_earlier_probes = () => {
+	vi.useFakeTimers({ toFake: ['Date'] });
+	vi.setSystemTime(Date.now() + ++day * 24 * 60 * 60 * 1000);
+};
+
+afterEach(() => {
+	Object.assign(health_config, default_health_config);
+	vi.unstubAllGlobals();
+	vi.useRealTimers();
+});
+
+describe('get_readiness', () => {
+	it('is ready with configured providers when probes are off', async () => {
+		const fetch = stub_fetch({});
+
+		const readiness = await get_readiness(providers);
+		expect(readiness).toMatchObject({ ready: true, degraded: false });
+		expect(readiness.providers).toEqual([
+			{ category: 'search', name: 'tavily' },
+			{ category: 'search', name: 'brave' },
+			{ category: 'ai_response', name: 'tavily_answer' },
+			{ category: 'processing', name: 'tavily_extract' },
+		]);
+		expect(readiness).not.toHaveProperty('probes');
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	it('reports degraded while some probed hosts are down', async () => {
+		skip_past_earlier_probes();
+		health_config.probe_interval_ms = 60_000;
+		stub_fetch({ 'https://api.tavily.com': 405 });
+
+		const readiness = await get_readiness(providers);
+		expect(readiness).toMatchObject({ ready: true, degraded: true });
+		expect(readiness.probes?.['search.tavily']).toMatchObject({
+			reachable: true,
+			status: 405,
+		});
+		expect(readiness.probes?.['search.brave']).toMatchObject({
+			reachable: false,
+			error: 'connect ECONNREFUSED',
+		});
+	});
+});
+
+describe('get_provider_probes', () => {
+	it('probes each host once per interval', async () => {
+		skip_past_earlier_probes();
+		health_config.probe_interval_ms = 30_000;
+		const fetch = stub_fetch({
+			'https://api.tavily.com': 200,
+			'https://api.search.brave.com': 503,
+		});
+
+		const probes = await get_provider_probes(providers);
+		expect(fetch).toHaveBeenCalledTimes(2);
+		expect(fetch).toHaveBeenCalledWith(
+			'https://api.tavily.com',
+			expect.objectContaining({ method: 'HEAD' }),
+		);
+		expect(probes?.['processing.tavily_extract']).toBe(
+			probes?.['search.tavily'],
+		);
+		expect(probes?.['search.brave']).toMatchObject({
+			reachable: false,
+			status: 503,
+		});
+
+		vi.advanceTimersByTime(29_999);
+		await get_provider_probes(providers);
+		expect(fetch).toHaveBeenCalledTimes(2);
+
+		vi.advanceTimersByTime(1);
+		await get_provider_probes(providers);
+		expect(fetch).toHaveBeenCalledTimes(4);
+	});
+
+	it('is not ready when no probed host is reachable', async () => {
+		skip_past_earlier_probes();
+		health_config.probe_interval_ms = 1000;
+		stub_fetch({ 'https://api.search.brave.com': 500 });
+
+		expect(await get_readiness(providers)).toMatchObject({
+			ready: false,
+			degraded: true,
+		});
+	});
+});
@@ -0,0 +1,136 @@
+// Provider readiness for /readyz and the provider status resource.
+// The server layer passes in the configured providers, so this module
+// does not depend on the provider manifest.
+
+import { health_config } from '../config/env.js';
+import { get_circuit_statuses } from './circuit_breaker.js';
+import { provider_key } from './types.js';
+
+export interface ConfiguredProvider {
+	category: string;
+	name: string;
+	base_url: string;
+}
+
+export interface ProviderProbe {
+	reachable: boolean;
+	status?: number;
+	latency_ms: number;
+	error?: string;
+	checked_at: string;
+}
+
+// Probe results per origin; providers sharing an API host share a probe
+const probes = new Map<string, ProviderProbe>();
+let refreshing: Promise<void> | undefined;
+
+// Any HTTP response, even 401 or 404, means the host is up. The probe
+// sends no API key, so it never costs quota.
+const probe_origin = async (
+	origin: string,
+): Promise<ProviderProbe> => {
+	const start = performance.now();
+	const checked_at = new Date().toISOString();
+	try {
+		const response = await fetch(origin, {
+			method: 'HEAD',
+			signal: AbortSignal.timeout(health_config.probe_timeout_ms),
+		});
+		return {
+			reachable: response.status < 500,
+			status: response.status,
+			latency_ms: Math.round(performance.now() - start),
+			checked_at,
+		};
+	} catch (error) {
+		return {
+			reachable: false,
+			latency_ms: Math.round(performance.now() - start),
+			error: error instanceof Error ? error.message : String(error),
+			checked_at,
+		};
+	}
+};
+
+const is_stale = (probe: ProviderProbe | undefined) =>
+	!probe ||
+	Date.now() - Date.parse(probe.checked_at) >=
+		health_config.probe_interval_ms;
+
+/**
+ * Get probe results for the configured providers, re-probing hosts
+ * whose last result is older than the probe interval
+ * @param providers The configured providers
+ * @returns Probe results by provider name, or undefined when probes
+ * are off
+ */
+export const get_provider_probes = async (
+	providers: ConfiguredProvider[],
+): Promise<Record<string, ProviderProbe> | undefined> => {
+	if (!health_config.probe_interval_ms) return undefined;
+
+	const origin_of = (provider: ConfiguredProvider) =>
+		new URL(provider.base_url).origin;
+
+	const stale = [...new Set(providers.map(origin_of))].filter(
+		(origin) => is_stale(probes.get(origin)),
+	);
+	if (stale.length) {
+		// Concurrent readers wait on the same round of probes
+		refreshing ??= Promise.all(
+			stale.map(async (origin) => {
+				probes.set(origin, await probe_origin(origin));
+			}),
+		).then(
+			() => {
+				refreshing = undefined;
+			},
+			() => {
+				refreshing = undefined;
+			},
+		);
+		await refreshing;
+	}
+
+	const results: Record<string, ProviderProbe> = {};
+	for (const provider of providers) {
+		const probe = probes.get(origin_of(provider));
+		if (probe)
+			results[`${provider.category}.${provider.name}`] = probe;
+	}
+	return results;
+};
+
+/**
+ * Summarize readiness: ready while at least one provider is configured
+ * and, when probes are on, at least one of them is reachable
+ * @param providers The configured providers
+ * @returns Readiness with the data it was derived from
+ */
+export const get_readiness = async (
+	providers: ConfiguredProvider[],
+) => {
+	const probes = await get_provider_probes(providers);
+	const circuit_breakers = get_circuit_statuses();
+
+	const reachable = probes
+		? Object.values(probes).filter((probe) => probe.reachable).length
+		: providers.length;
+	const degraded =
+		(probes &&
+			Object.values(probes).some((probe) => !probe.reachable)) ||
+		Object.values(circuit_breakers).some(
+			(circuit) => circuit.state !== 'closed',
+		);
+
+	return {
+		ready: providers.length > 0 && reachable > 0,
+		degraded,
+		providers: providers.map(({ category, name }) => ({
+			category,
+			name,
+		})),
+		...(probes ? { probes } : {}),
+		circuit_breakers,
+	};
+};
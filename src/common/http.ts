@@ -1,8 +1,18 @@
+import type { Span } from '@opentelemetry/api';
+import { with_provider_timeout } from './latency.js';
+import { observe_upstream } from './metrics.js';
+import { with_span } from './tracing.js';
 import { ErrorType, ProviderError } from './types.js';
-import { handle_rate_limit } from './utils.js';
+import {
+	handle_rate_limit,
+	parse_rate_limit_reset,
+} from './utils.js';
 
 export interface HttpJsonOptions extends RequestInit {
 	expectedStatuses?: number[];
+	// Provider's default timeout in milliseconds; the actual timeout
+	// adapts to its observed latency
+	timeout?: number;
 }
 
 const tryParseJson = (text: string) => {
@@ -14,13 +24,52 @@ const tryParseJson = (text: string) => {
 	}
 };
 
-export const http_json = async <T = unknown>(
+export const http_json = <T = unknown>(
 	provider: string,
 	url: string,
 	options: HttpJsonOptions = {},
 ): Promise<T> => {
-	const res = await fetch(url, options);
-	const raw = await res.text();
+	const method = options.method ?? 'GET';
+	return with_span(
+		`http ${method}`,
+		{
+			'omnisearch.provider': provider,
+			'http.request.method': method,
+			'server.address': new URL(url).host,
+		},
+		(span) => send_json<T>(provider, url, options, span),
+	);
+};
+
+const send_json = async <T>(
+	provider: string,
+	url: string,
+	options: HttpJsonOptions,
+	span: Span,
+): Promise<T> => {
+	const { timeout, ...init } = options;
+	const request = async (signal?: AbortSignal | null) => {
+		const start = performance.now();
+		try {
+			const res = await fetch(url, { ...init, signal });
+			const raw = await res.text();
+			observe_upstream(provider, url, start, { status: res.status });
+			return { res, raw };
+		} catch (error) {
+			observe_upstream(provider, url, start, { error });
+			throw error;
+		}
+	};
+	const { res, raw } =
+		timeout !== undefined
+			? await with_provider_timeout(
+					provider,
+					timeout,
+					init.signal ?? undefined,
+					request,
+				)
+			: await request(init.signal);
+	span.setAttribute('http.response.status_code', res.status);
 	const body = tryParseJson(raw);
 
 	const okOrExpected =
@@ -52,7 +101,10 @@ export const http_json = async <T = unknown>(
 					provider,
 				);
 			case 429:
-				handle_rate_limit(provider);
+				handle_rate_limit(
+					provider,
+					parse_rate_limit_reset(res.headers),
+				);
 			default:
 				if (res.status >= 500) {
 					throw new ProviderError(
@@ -0,0 +1,157 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { timeout_config } from '../config/env.js';
+import { with_cache } from './cache.js';
+import {
+	get_latency_percentile,
+	get_provider_timeout,
+	with_provider_category,
+	with_provider_timeout,
+} from './latency.js';
+
+const default_timeout_config = structuredClone(timeout_config);
+
+// Records provider calls that take exactly the given times
+const seed_latency = async (
+	category: string,
+	provider: string,
+	durations_ms: number[],
+) => {
+	vi.useFakeTimers({ toFake: ['performance'] });
+	for (const ms of durations_ms) {
+		await with_provider_category(category, () =>
+			with_provider_timeout(provider, 60_000, undefined, async () => {
+				vi.advanceTimersByTime(ms);
+			}),
+		);
+	}
+	vi.useRealTimers();
+};
+
+afterEach(() => {
+	Object.assign(
+		timeout_config,
+		structuredClone(default_timeout_config),
+	);
+});
+
+describe('get_latency_percentile', () => {
+	it('needs a few samples before estimating', async () => {
+		await seed_latency('search', 'tavily', Array(4).fill(120));
+		expect(
+			get_latency_percentile('search', 'tavily', 0.5),
+		).toBeUndefined();
+
+		await seed_latency('search', 'tavily', [120]);
+		expect(
+			get_latency_percentile('search', 'tavily', 0.5),
+		).toBeDefined();
+	});
+
+	it('interpolates within the percentile bucket', async () => {
+		// Four samples in 100-200ms and one in 500-750ms
+		await seed_latency('search', 'brave', [150, 150, 150, 150, 600]);
+
+		expect(get_latency_percentile('search', 'brave', 0.5)).toBe(
+			162.5,
+		);
+		expect(get_latency_percentile('search', 'brave', 0.8)).toBe(200);
+		expect(get_latency_percentile('search', 'brave', 0.9)).toBe(625);
+	});
+
+	it('reports the lower bound of the open-ended bucket', async () => {
+		await seed_latency('search', 'kagi', Array(5).fill(90_000));
+		expect(get_latency_percentile('search', 'kagi', 0.95)).toBe(
+			60_000,
+		);
+	});
+});
+
+describe('get_provider_timeout', () => {
+	it('uses the default until there is enough history', () => {
+		expect(get_provider_timeout('serpapi', 30_000)).toBe(30_000);
+		expect(get_provider_timeout('serpapi', 500)).toBe(2000);
+		expect(get_provider_timeout('serpapi', 600_000)).toBe(120_000);
+	});
+
+	it('allows twice the p95 once it has samples', async () => {
+		await seed_latency('search', 'linkup', Array(5).fill(1500));
+		// p95 of 1475ms in the 1000-1500ms bucket
+		expect(
+			with_provider_category('search', () =>
+				get_provider_timeout('linkup', 30_000),
+			),
+		).toBe(2950);
+		expect(
+			with_provider_category('ai_response', () =>
+				get_provider_timeout('linkup', 30_000),
+			),
+		).toBe(30_000);
+	});
+
+	it('prefers a configured override, most specific first', () => {
+		timeout_config.overrides.firecrawl = 45_000;
+		timeout_config.overrides['processing.firecrawl'] = 90_000;
+		expect(get_provider_timeout('firecrawl', 30_000)).toBe(45_000);
+		expect(
+			with_provider_category('processing', () =>
+				get_provider_timeout('firecrawl', 30_000),
+			),
+		).toBe(90_000);
+	});
+});
+
+describe('with_provider_timeout', () => {
+	it('aborts a request that runs past the timeout', async () => {
+		timeout_config.overrides.perplexity = 20;
+		const never = (signal: AbortSignal) =>
+			new Promise((_, reject) =>
+				signal.addEventListener('abort', () => reject(signal.reason)),
+			);
+
+		await expect(
+			with_provider_timeout('perplexity', 30_000, undefined, never),
+		).rejects.toMatchObject({ name: 'TimeoutError' });
+	});
+
+	it('passes on cancellation from the caller', async () => {
+		const controller = new AbortController();
+		const request = with_provider_timeout(
+			'exa',
+			30_000,
+			controller.signal,
+			(signal) =>
+				new Promise((_, reject) =>
+					signal.addEventListener('abort', () =>
+						reject(signal.reason),
+					),
+				),
+		);
+		controller.abort(new Error('cancelled'));
+		await expect(request).rejects.toThrow('cancelled');
+	});
+
+	it('tracks latency per category for a shared provider name', async () => {
+		for (let i = 0; i < 5; i++) {
+			await with_cache(
+				'search',
+				'perplexity',
+				'search',
+				{ query: `latency ${i}` },
+				(signal) =>
+					with_provider_timeout(
+						'perplexity',
+						10_000,
+						signal,
+						async () => 'result',
+					),
+			);
+		}
+
+		expect(
+			get_latency_percentile('search', 'perplexity', 0.5),
+		).toBeDefined();
+		expect(
+			get_latency_percentile('ai_response', 'perplexity', 0.5),
+		).toBeUndefined();
+	});
+});
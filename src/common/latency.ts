@@ -0,0 +1,195 @@
+// In-process latency histograms per provider, used to rank providers
+// by speed and to derive percentile-based delays and timeouts
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { timeout_config } from '../config/env.js';
+import { upstream_timeouts } from './metrics.js';
+import { provider_key } from './types.js';
+import { timeout_signal } from './utils.js';
+
+// Bucket upper bounds in milliseconds
+const BUCKET_BOUNDS = [
+	50,
+	100,
+	200,
+	300,
+	500,
+	750,
+	1000,
+	1500,
+	2000,
+	3000,
+	5000,
+	7500,
+	10000,
+	15000,
+	20000,
+	30000,
+	60000,
+	Infinity,
+];
+
+// Counts are halved once a histogram holds this many samples, so the
+// percentiles follow recent behaviour rather than all-time history
+const MAX_SAMPLES = 1000;
+
+// Percentiles from fewer samples than this are too noisy to act on
+const MIN_SAMPLES = 5;
+
+interface Histogram {
+	counts: number[];
+	total: number;
+}
+
+// Keyed by category.name, since a name such as perplexity can be
+// both a search and an ai_response provider with different latencies
+const histograms = new Map<string, Histogram>();
+
+// Category of the provider call being served. Requests are sent deep
+// inside providers, which only know their own name.
+const category_storage = new AsyncLocalStorage<string>();
+
+/**
+ * Run a provider call so its latency and timeout are tracked under
+ * the given category
+ * @param category Provider category
+ * @param fn The provider call
+ * @returns The call's result
+ */
+export const with_provider_category = <T>(
+	category: string,
+	fn: () => T,
+): T => category_storage.run(category, fn);
+
+// Histogram key for a provider called in the current category scope;
+// the bare name outside one
+const scoped_key = (provider: string) => {
+	const category = category_storage.getStore();
+	return category ? provider_key(category, provider) : provider;
+};
+
+const record_latency = (key: string, ms: number) => {
+	let histogram = histograms.get(key);
+	if (!histogram) {
+		histogram = {
+			counts: BUCKET_BOUNDS.map(() => 0),
+			total: 0,
+		};
+		histograms.set(key, histogram);
+	}
+	histogram.counts[BUCKET_BOUNDS.findIndex((bound) => ms <= bound)]++;
+	histogram.total++;
+
+	if (histogram.total >= MAX_SAMPLES) {
+		histogram.counts = histogram.counts.map((c) => Math.floor(c / 2));
+		histogram.total = histogram.counts.reduce((a, b) => a + b, 0);
+	}
+};
+
+// Interpolates within the histogram bucket the percentile falls into
+const percentile_of = (
+	key: string,
+	percentile: number,
+): number | undefined => {
+	const histogram = histograms.get(key);
+	if (!histogram || histogram.total < MIN_SAMPLES) return undefined;
+
+	const target = percentile * histogram.total;
+	let cumulative = 0;
+	for (let i = 0; i < BUCKET_BOUNDS.length; i++) {
+		const count = histogram.counts[i];
+		if (count && cumulative + count >= target) {
+			const lower = i === 0 ? 0 : BUCKET_BOUNDS[i - 1];
+			const upper = BUCKET_BOUNDS[i];
+			// The open-ended last bucket has no upper bound to interpolate to
+			if (upper === Infinity) return lower;
+			return (
+				lower + ((target - cumulative) / count) * (upper - lower)
+			);
+		}
+		cumulative += count;
+	}
+	return undefined;
+};
+
+/**
+ * Estimate a latency percentile for a provider
+ * @param category Provider category
+ * @param provider Provider name
+ * @param percentile Percentile as a fraction, e.g. 0.95
+ * @returns Latency in milliseconds, or undefined without enough samples
+ */
+export const get_latency_percentile = (
+	category: string,
+	provider: string,
+	percentile: number,
+): number | undefined =>
+	percentile_of(provider_key(category, provider), percentile);
+
+/**
+ * Get the timeout for a provider's next request: a fixed override if
+ * configured, otherwise its p95 latency with headroom, falling back to
+ * the provider's default until enough samples exist. Both are clamped
+ * to the configured floor and ceiling. Inside a category scope an
+ * override for category.name wins over one for the bare name.
+ * @param provider Provider name
+ * @param default_ms The provider's configured default timeout
+ * @returns Timeout in milliseconds
+ */
+export const get_provider_timeout = (
+	provider: string,
+	default_ms: number,
+): number => {
+	const key = scoped_key(provider);
+	const override =
+		timeout_config.overrides[key] ??
+		timeout_config.overrides[provider];
+	if (override !== undefined) return override;
+
+	const p95 = percentile_of(key, 0.95);
+	const timeout_ms =
+		p95 !== undefined
+			? p95 * timeout_config.p95_multiplier
+			: default_ms;
+	return Math.round(
+		Math.min(
+			Math.max(timeout_ms, timeout_config.floor_ms),
+			timeout_config.ceiling_ms,
+		),
+	);
+};
+
+/**
+ * Run an upstream request under the provider's adaptive timeout and
+ * record how long it took
+ * @param provider Provider name
+ * @param default_ms The provider's configured default timeout
+ * @param signal Caller's cancellation signal, if any
+ * @param fn The request, given the combined timeout/cancellation signal
+ * @returns The request's result
+ */
+export const with_provider_timeout = async <T>(
+	provider: string,
+	default_ms: number,
+	signal: AbortSignal | undefined,
+	fn: (signal: AbortSignal) => Promise<T>,
+): Promise<T> => {
+	const key = scoped_key(provider);
+	const timeout_ms = get_provider_timeout(provider, default_ms);
+	const request_signal = timeout_signal(timeout_ms, signal);
+	const start = performance.now();
+	try {
+		const result = await fn(request_signal);
+		record_latency(key, performance.now() - start);
+		return result;
+	} catch (error) {
+		// Timeouts count as samples too, so a provider that slowed down
+		// raises its p95 instead of timing out forever. The signal is
+		// checked rather than the error, which clients may wrap.
+		if (request_signal.reason?.name === 'TimeoutError') {
+			record_latency(key, timeout_ms);
+			upstream_timeouts.inc({ provider });
+		}
+		throw error;
+	}
+};
@@ -0,0 +1,75 @@
+// Structured logging: one JSON object per line on stderr (stdout
+// carries the stdio transport)
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { log_config } from '../config/env.js';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+// Fields attached to every line logged while serving one request
+export interface LogContext {
+	request_id?: string;
+	tool?: string;
+	retry?: number;
+}
+
+const context_storage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Get the log context of the request being served
+ * @returns The context, empty outside a request
+ */
+export const get_log_context = (): LogContext =>
+	context_storage.getStore() ?? {};
+
+/**
+ * Run a function with extra fields added to the current log context
+ * @param fields Fields to add or override
+ * @param fn The function to run
+ * @returns The function's result
+ */
+export const with_log_context = <T>(
+	fields: LogContext,
+	fn: () => T,
+): T => context_storage.run({ ...get_log_context(), ...fields }, fn);
+
+const is_log_level = (value: string): value is LogLevel =>
+	(LOG_LEVELS as readonly string[]).includes(value);
+
+const write = (
+	level: LogLevel,
+	msg: string,
+	fields: Record<string, unknown> = {},
+) => {
+	const min_level = is_log_level(log_config.level)
+		? log_config.level
+		: 'info';
+	if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(min_level)) {
+		return;
+	}
+
+	const line: Record<string, unknown> = {
+		level,
+		time: new Date().toISOString(),
+		msg,
+		...get_log_context(),
+	};
+	for (const [key, value] of Object.entries(fields)) {
+		if (value === undefined) continue;
+		line[key] = value instanceof Error ? value.message : value;
+	}
+	process.stderr.write(`${JSON.stringify(line)}\n`);
+};
+
+export const logger = {
+	debug: (msg: string, fields?: Record<string, unknown>) =>
+		write('debug', msg, fields),
+	info: (msg: string, fields?: Record<string, unknown>) =>
+		write('info', msg, fields),
+	warn: (msg: string, fields?: Record<string, unknown>) =>
+		write('warn', msg, fields),
+	error: (msg: string, fields?: Record<string, unknown>) =>
+		write('error', msg, fields),
+};
@@ -0,0 +1,236 @@
+// In-process metrics rendered in the Prometheus text exposition format
+
+import { logger } from './logger.js';
+import { ErrorType, ProviderError } from './types.js';
+
+type Labels = Record<string, string>;
+
+const escape_label = (value: string) =>
+	value
+		.replace(/\\/g, '\\\\')
+		.replace(/\n/g, '\\n')
+		.replace(/"/g, '\\"');
+
+const format_labels = (labels: Labels) => {
+	const pairs = Object.entries(labels).map(
+		([name, value]) => `${name}="${escape_label(value)}"`,
+	);
+	return pairs.length ? `{${pairs.join(',')}}` : '';
+};
+
+interface Metric {
+	render(): string[];
+}
+
+const registry: Metric[] = [];
+
+class Counter implements Metric {
+	private values = new Map<string, number>();
+
+	constructor(
+		private name: string,
+		private help: string,
+		private type: 'counter' | 'gauge' = 'counter',
+	) {
+		registry.push(this);
+	}
+
+	inc(labels: Labels = {}, amount = 1) {
+		const key = format_labels(labels);
+		this.values.set(key, (this.values.get(key) ?? 0) + amount);
+	}
+
+	render() {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} ${this.type}`,
+			...Array.from(
+				this.values,
+				([labels, value]) => `${this.name}${labels} ${value}`,
+			),
+		];
+	}
+}
+
+class Gauge extends Counter {
+	constructor(name: string, help: string) {
+		super(name, help, 'gauge');
+	}
+
+	dec(labels: Labels = {}) {
+		this.inc(labels, -1);
+	}
+}
+
+interface HistogramSeries {
+	labels: Labels;
+	counts: number[];
+	sum: number;
+	count: number;
+}
+
+class Histogram implements Metric {
+	private series = new Map<string, HistogramSeries>();
+
+	constructor(
+		private name: string,
+		private help: string,
+		private buckets: number[],
+	) {
+		registry.push(this);
+	}
+
+	observe(labels: Labels, value: number) {
+		const key = format_labels(labels);
+		let series = this.series.get(key);
+		if (!series) {
+			series = {
+				labels,
+				counts: this.buckets.map(() => 0),
+				sum: 0,
+				count: 0,
+			};
+			this.series.set(key, series);
+		}
+		this.buckets.forEach((bound, i) => {
+			if (value <= bound) series.counts[i]++;
+		});
+		series.sum += value;
+		series.count++;
+	}
+
+	render() {
+		const lines = [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} histogram`,
+		];
+		for (const {
+			labels,
+			counts,
+			sum,
+			count,
+		} of this.series.values()) {
+			this.buckets.forEach((bound, i) => {
+				lines.push(
+					`${this.name}_bucket${format_labels({ ...labels, le: String(bound) })} ${counts[i]}`,
+				);
+			});
+			lines.push(
+				`${this.name}_bucket${format_labels({ ...labels, le: '+Inf' })} ${count}`,
+				`${this.name}_sum${format_labels(labels)} ${sum}`,
+				`${this.name}_count${format_labels(labels)} ${count}`,
+			);
+		}
+		return lines;
+	}
+}
+
+// Seconds; tool calls fan out to several providers, so they run long
+const DURATION_BUCKETS = [
+	0.1, 0.25, 0.5, 1, 2.5, 5, 10, 20, 30, 60, 120,
+];
+
+export const tool_calls = new Counter(
+	'omnisearch_tool_calls_total',
+	'Tool calls by tool and status (ok, error)',
+);
+export const tool_call_duration = new Histogram(
+	'omnisearch_tool_call_duration_seconds',
+	'Tool call latency by tool',
+	DURATION_BUCKETS,
+);
+export const tool_calls_in_flight = new Gauge(
+	'omnisearch_tool_calls_in_flight',
+	'Tool calls currently being served, by tool',
+);
+export const upstream_requests = new Counter(
+	'omnisearch_upstream_requests_total',
+	'Upstream HTTP requests by provider and outcome (success, an ErrorType, timeout or cancelled)',
+);
+export const upstream_request_duration = new Histogram(
+	'omnisearch_upstream_request_duration_seconds',
+	'Upstream HTTP request latency by provider',
+	DURATION_BUCKETS,
+);
+export const upstream_retries = new Counter(
+	'omnisearch_upstream_retries_total',
+	'Retried upstream calls by provider',
+);
+export const upstream_timeouts = new Counter(
+	'omnisearch_upstream_timeouts_total',
+	'Upstream requests that hit their timeout, by provider',
+);
+export const cache_lookups = new Counter(
+	'omnisearch_cache_lookups_total',
+	'Response cache lookups by category, provider and result (hit, miss)',
+);
+
+/**
+ * Render all metrics in the Prometheus text exposition format
+ * @returns The exposition body
+ */
+export const render_metrics = (): string =>
+	`${registry.flatMap((metric) => metric.render()).join('\n')}\n`;
+
+// Same status mapping as http_json uses for its errors
+const status_outcome = (status: number): string =>
+	status < 400
+		? 'success'
+		: status === 429
+			? ErrorType.RATE_LIMIT
+			: status >= 500
+				? ErrorType.PROVIDER_ERROR
+				: ErrorType.API_ERROR;
+
+// Errors thrown by the request itself (not mapped from a status) are
+// timeouts, cancellations or network failures
+const error_outcome = (error: unknown): string => {
+	const name = (error as Error)?.name;
+	if (name === 'TimeoutError') return 'timeout';
+	if (name === 'AbortError') return 'cancelled';
+	return error instanceof ProviderError
+		? error.type
+		: ErrorType.PROVIDER_ERROR;
+};
+
+/**
+ * Log one upstream HTTP request and record it in the metrics
+ * @param provider Provider name
+ * @param url Request URL; only the host is logged
+ * @param start performance.now() when the request started
+ * @param outcome Response status, or the error the request failed with
+ */
+export const observe_upstream = (
+	provider: string,
+	url: string,
+	start: number,
+	outcome: { status: number } | { error: unknown },
+) => {
+	const latency_ms = performance.now() - start;
+	const fields = {
+		provider,
+		host: new URL(url).host,
+		latency_ms: Math.round(latency_ms),
+	};
+	upstream_request_duration.observe({ provider }, latency_ms / 1000);
+
+	if ('error' in outcome) {
+		upstream_requests.inc({
+			provider,
+			outcome: error_outcome(outcome.error),
+		});
+		logger.warn('upstream request failed', {
+			...fields,
+			error: outcome.error,
+		});
+	} else {
+		upstream_requests.inc({
+			provider,
+			outcome: status_outcome(outcome.status),
+		});
+		(outcome.status < 400 ? logger.info : logger.warn)(
+			'upstream request',
+			{ ...fields, status: outcome.status },
+		);
+	}
+};
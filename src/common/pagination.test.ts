@@ -0,0 +1,148 @@
+import {
+	afterEach,
+	beforeEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import {
+	pagination_config,
+	response_budget_config,
+} from '../config/env.js';
+import {
+	fetch_page,
+	PageInfo,
+	paginate_result,
+} from './pagination.js';
+import { ErrorType } from './types.js';
+
+const default_pagination = { ...pagination_config };
+const default_response_budget = { ...response_budget_config };
+
+const search_response = (count: number) => ({
+	query: 'q',
+	web_results: Array.from({ length: count }, (_, i) => ({
+		url: `https://example.com/${i}`,
+		snippet: 'x'.repeat(200),
+	})),
+});
+
+type Page = Record<string, unknown> & { pagination: PageInfo };
+
+beforeEach(() => {
+	response_budget_config.unit = 'chars';
+	pagination_config.page_size = 1000;
+});
+
+afterEach(() => {
+	Object.assign(pagination_config, default_pagination);
+	Object.assign(response_budget_config, default_response_budget);
+	vi.useRealTimers();
+});
+
+describe('paginate_result', () => {
+	it('returns results that fit on one page unchanged', () => {
+		const result = search_response(2);
+		expect(paginate_result(result, 'web_search')).toBe(result);
+	});
+
+	it('serves every result exactly once across cursor pages', () => {
+		const first = paginate_result(
+			search_response(12),
+			'web_search',
+		) as Page;
+		expect(first.query).toBe('q');
+		expect(first.pagination).toMatchObject({
+			page: 1,
+			total_items: 12,
+			next_cursor: expect.any(String),
+		});
+
+		const urls = (first.web_results as Array<{ url: string }>).map(
+			(r) => r.url,
+		);
+		let cursor = first.pagination.next_cursor;
+		while (cursor) {
+			const page = fetch_page(cursor) as Page;
+			expect(page.tool).toBe('web_search');
+			urls.push(
+				...(page.web_results as Array<{ url: string }>).map(
+					(r) => r.url,
+				),
+			);
+			cursor = page.pagination.next_cursor;
+			if (!cursor) {
+				expect(page.pagination.page).toBe(
+					first.pagination.total_pages,
+				);
+			}
+		}
+		expect(urls).toEqual(
+			search_response(12).web_results.map((r) => r.url),
+		);
+	});
+
+	it('splits long content into chunks', () => {
+		const content = 'word '.repeat(600);
+		const first = paginate_result(
+			{ url: 'https://example.com', content },
+			'web_extract',
+		) as Page;
+
+		let joined = first.content as string;
+		let cursor = first.pagination.next_cursor;
+		while (cursor) {
+			const page = fetch_page(cursor) as Page;
+			joined += page.content as string;
+			cursor = page.pagination.next_cursor;
+		}
+		expect(joined).toBe(content);
+	});
+});
+
+describe('fetch_page', () => {
+	it('rejects malformed cursors and the first page', () => {
+		const first = paginate_result(
+			search_response(12),
+			'web_search',
+		) as Page;
+		const [id] = Buffer.from(
+			first.pagination.next_cursor!,
+			'base64url',
+		)
+			.toString()
+			.split(':');
+
+		for (const cursor of [
+			'not a cursor',
+			Buffer.from(`${id}:1`).toString('base64url'),
+			Buffer.from(`${id}:99`).toString('base64url'),
+		]) {
+			expect(() => fetch_page(cursor)).toThrow(
+				expect.objectContaining({ type: ErrorType.INVALID_INPUT }),
+			);
+		}
+	});
+
+	it('expires cursors after the TTL', () => {
+		vi.useFakeTimers();
+		pagination_config.ttl_ms = 60_000;
+		const first = paginate_result(
+			search_response(12),
+			'web_search',
+		) as Page;
+		const cursor = first.pagination.next_cursor!;
+		expect(Date.parse(first.pagination.expires_at!)).toBe(
+			Date.now() + 60_000,
+		);
+
+		vi.advanceTimersByTime(59_999);
+		expect(fetch_page(cursor).pagination).toMatchObject({ page: 2 });
+
+		vi.advanceTimersByTime(1);
+		expect(() => fetch_page(cursor)).toThrow(
+			'Cursor is invalid or has expired',
+		);
+	});
+});
@@ -0,0 +1,243 @@
+// Cursor-based pagination for oversized tool results
+
+import { randomUUID } from 'node:crypto';
+import {
+	pagination_config,
+	response_budget_config,
+} from '../config/env.js';
+import { ErrorType, ProviderError } from './types.js';
+
+const CHARS_PER_TOKEN = 4;
+
+// Fields that can be split across pages, in order of preference
+type PagedField = 'web_results' | 'raw_contents' | 'content';
+
+export interface PageInfo {
+	page: number;
+	total_pages: number;
+	total_items: number;
+	next_cursor?: string;
+	expires_at?: string;
+	note?: string;
+}
+
+interface StoredResult {
+	tool: string;
+	base: Record<string, unknown>;
+	field: PagedField;
+	pages: unknown[][];
+	total_items: number;
+	expires_at: number;
+	note?: string;
+}
+
+// Later pages live in memory until their TTL expires
+const store = new Map<string, StoredResult>();
+
+const sweep_expired = () => {
+	const now = Date.now();
+	for (const [id, entry] of store) {
+		if (entry.expires_at <= now) store.delete(id);
+	}
+};
+
+const encode_cursor = (id: string, page: number): string =>
+	Buffer.from(`${id}:${page}`).toString('base64url');
+
+const decode_cursor = (
+	cursor: string,
+): { id: string; page: number } | undefined => {
+	const [id, page] = Buffer.from(cursor, 'base64url')
+		.toString()
+		.split(':');
+	const page_number = Number(page);
+	return id && Number.isInteger(page_number) && page_number > 1
+		? { id, page: page_number }
+		: undefined;
+};
+
+const page_size_chars = (): number =>
+	response_budget_config.unit === 'tokens'
+		? pagination_config.page_size * CHARS_PER_TOKEN
+		: pagination_config.page_size;
+
+const measure = (value: unknown): number =>
+	JSON.stringify(value, null, 2)?.length ?? 0;
+
+// Split text into chunks of at most max_chars, preferring paragraph breaks
+const chunk_text = (text: string, max_chars: number): string[] => {
+	const chunks: string[] = [];
+	let rest = text;
+	while (rest.length > max_chars) {
+		const window = rest.slice(0, max_chars);
+		const paragraph = window.lastIndexOf('\n\n');
+		const cut = paragraph > max_chars / 2 ? paragraph : max_chars;
+		chunks.push(rest.slice(0, cut));
+		rest = rest.slice(cut).replace(/^\n+/, '');
+	}
+	if (rest) chunks.push(rest);
+	return chunks;
+};
+
+// Group items into pages that stay under the size budget (at least one item each)
+const group_into_pages = (
+	items: unknown[],
+	max_chars: number,
+): unknown[][] => {
+	const pages: unknown[][] = [];
+	let current: unknown[] = [];
+	let current_size = 0;
+	for (const item of items) {
+		const size = measure(item);
+		if (current.length && current_size + size > max_chars) {
+			pages.push(current);
+			current = [];
+			current_size = 0;
+		}
+		current.push(item);
+		current_size += size;
+	}
+	if (current.length) pages.push(current);
+	return pages;
+};
+
+const build_page = (
+	entry: Pick<
+		StoredResult,
+		'base' | 'field' | 'pages' | 'total_items' | 'note'
+	>,
+	page: number,
+	id?: string,
+	expires_at?: number,
+): Record<string, unknown> => {
+	const items = entry.pages[page - 1];
+	const has_more = page < entry.pages.length;
+	const pagination: PageInfo = {
+		page,
+		total_pages: entry.pages.length,
+		total_items: entry.total_items,
+		...(has_more && id
+			? {
+					next_cursor: encode_cursor(id, page + 1),
+					expires_at: new Date(expires_at!).toISOString(),
+				}
+			: {}),
+		...(entry.note ? { note: entry.note } : {}),
+	};
+	return {
+		...entry.base,
+		[entry.field]: entry.field === 'content' ? items.join('') : items,
+		pagination,
+	};
+};
+
+/**
+ * Split an oversized result into pages. The first page is returned with
+ * a `pagination.next_cursor`; later pages are kept server-side for the
+ * configured TTL and served by fetch_more.
+ * @param result The tool result (web_search response or ProcessingResult)
+ * @param tool_name Tool that produced the result
+ * @returns The result unchanged if it fits on one page, otherwise its
+ * first page
+ */
+export const paginate_result = <T>(
+	result: T,
+	tool_name: string,
+): T | Record<string, unknown> => {
+	const max_chars = page_size_chars();
+	if (
+		!result ||
+		typeof result !== 'object' ||
+		Array.isArray(result) ||
+		measure(result) <= max_chars
+	) {
+		return result;
+	}
+
+	const { ...base } = result as Record<string, unknown>;
+	let field: PagedField;
+	let items: unknown[];
+	let note: string | undefined;
+
+	if (Array.isArray(base.web_results)) {
+		field = 'web_results';
+		items = base.web_results;
+	} else if (
+		Array.isArray(base.raw_contents) &&
+		base.raw_contents.length
+	) {
+		// Combined content repeats raw_contents, so pages carry only the latter
+		field = 'raw_contents';
+		items = (base.raw_contents as Array<{ content: string }>).flatMap(
+			(raw) => {
+				const chunks = chunk_text(raw.content ?? '', max_chars);
+				return chunks.length > 1
+					? chunks.map((content, i) => ({
+							...raw,
+							content,
+							part: `${i + 1}/${chunks.length}`,
+						}))
+					: [raw];
+			},
+		);
+		delete base.content;
+		note =
+			'Combined content omitted while paginating; each page lists raw_contents';
+	} else if (typeof base.content === 'string') {
+		field = 'content';
+		items = chunk_text(base.content, max_chars);
+	} else {
+		return result;
+	}
+	delete base[field];
+
+	const overhead = measure(base);
+	const pages = group_into_pages(
+		items,
+		Math.max(max_chars - overhead, max_chars / 4),
+	);
+	if (pages.length <= 1) return result;
+
+	sweep_expired();
+	while (store.size >= pagination_config.max_entries) {
+		// Map iteration order is insertion order: evict the oldest
+		store.delete(store.keys().next().value!);
+	}
+
+	const id = randomUUID();
+	const entry: StoredResult = {
+		tool: tool_name,
+		base,
+		field,
+		pages,
+		total_items: items.length,
+		expires_at: Date.now() + pagination_config.ttl_ms,
+		note,
+	};
+	store.set(id, entry);
+	return build_page(entry, 1, id, entry.expires_at);
+};
+
+/**
+ * Fetch a later page of a paginated result
+ * @param cursor A next_cursor from a previous page
+ * @returns The requested page, with its own next_cursor if more remain
+ */
+export const fetch_page = (
+	cursor: string,
+): Record<string, unknown> => {
+	sweep_expired();
+	const decoded = decode_cursor(cursor);
+	const entry = decoded && store.get(decoded.id);
+	if (!decoded || !entry || decoded.page > entry.pages.length) {
+		throw new ProviderError(
+			ErrorType.INVALID_INPUT,
+			'Cursor is invalid or has expired. Re-run the original tool call.',
+			'fetch_more',
+		);
+	}
+	return {
+		tool: entry.tool,
+		...build_page(entry, decoded.page, decoded.id, entry.expires_at),
+	};
+};
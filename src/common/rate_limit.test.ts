@@ -0,0 +1,194 @@
+import { readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	afterAll,
+	afterEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import { rate_limit_config } from '../config/env.js';
+import { get_quota_usage, rate_limited } from './rate_limit.js';
+import { ErrorType, ProviderError } from './types.js';
+import { retry_with_backoff } from './utils.js';
+
+const default_config = structuredClone(rate_limit_config);
+
+rate_limit_config.quota_file = join(
+	tmpdir(),
+	`omnisearch-quota-${process.pid}.json`,
+);
+
+afterEach(() => {
+	const { requests_per_second, daily_quotas, monthly_quotas } =
+		structuredClone(default_config);
+	Object.assign(rate_limit_config, {
+		requests_per_second,
+		daily_quotas,
+		monthly_quotas,
+	});
+	vi.useRealTimers();
+});
+
+afterAll(() => rm(rate_limit_config.quota_file, { force: true }));
+
+describe('rate_limited', () => {
+	it('fails fast once the daily quota is used', async () => {
+		rate_limit_config.daily_quotas.tavily = 2;
+		const call = vi.fn(async () => 'ok');
+
+		await rate_limited('search', 'tavily', call);
+		await rate_limited('search', 'tavily', call);
+		await expect(
+			rate_limited('search', 'tavily', call),
+		).rejects.toMatchObject({
+			type: ErrorType.RATE_LIMIT,
+			message: 'Daily quota of 2 requests used for tavily',
+		});
+		expect(call).toHaveBeenCalledTimes(2);
+		expect(await rate_limited('search', 'brave', call)).toBe('ok');
+
+		// Usage is persisted in the background
+		await vi.waitFor(async () => {
+			const persisted = JSON.parse(
+				await readFile(rate_limit_config.quota_file, 'utf8'),
+			);
+			expect(persisted['search.tavily']).toMatchObject({
+				day_count: 2,
+				month_count: 2,
+			});
+		});
+	});
+
+	it('fails fast once the monthly quota is used', async () => {
+		rate_limit_config.monthly_quotas.serpapi = 1;
+		const call = async () => 'ok';
+
+		await rate_limited('search', 'serpapi', call);
+		await expect(
+			rate_limited('search', 'serpapi', call),
+		).rejects.toThrow('Monthly quota of 1 requests used for serpapi');
+	});
+
+	it('waits for the token bucket to refill', async () => {
+		vi.useFakeTimers();
+		rate_limit_config.requests_per_second.kagi = 1;
+		const call = async () => 'ok';
+
+		expect(await rate_limited('search', 'kagi', call)).toBe('ok');
+		let second_done = false;
+		const second = rate_limited('search', 'kagi', call).then(() => {
+			second_done = true;
+		});
+
+		await vi.advanceTimersByTimeAsync(999);
+		expect(second_done).toBe(false);
+		await vi.advanceTimersByTimeAsync(1);
+		await second;
+		expect(second_done).toBe(true);
+	});
+
+	it('counts quotas per category for a shared provider name', async () => {
+		rate_limit_config.daily_quotas.perplexity = 1;
+		const call = async () => 'ok';
+
+		expect(await rate_limited('search', 'perplexity', call)).toBe(
+			'ok',
+		);
+		await expect(
+			rate_limited('search', 'perplexity', call),
+		).rejects.toThrow('Daily quota of 1 requests used');
+		expect(
+			await rate_limited('ai_response', 'perplexity', call),
+		).toBe('ok');
+		expect(
+			await get_quota_usage('ai_response', 'perplexity'),
+		).toEqual({ day_count: 1, month_count: 1 });
+
+		// Usage is persisted in the background under category.name
+		await vi.waitFor(async () => {
+			const persisted = JSON.parse(
+				await readFile(rate_limit_config.quota_file, 'utf8'),
+			);
+			expect(Object.keys(persisted)).toEqual(
+				expect.arrayContaining([
+					'ai_response.perplexity',
+					'search.perplexity',
+				]),
+			);
+		});
+	});
+
+	it('does not retry a call once the quota is used up', async () => {
+		rate_limit_config.daily_quotas['enhancement.jina_reader'] = 1;
+		let calls = 0;
+		const call = async () => ++calls;
+		const limited = () =>
+			rate_limited('enhancement', 'jina_reader', call);
+
+		await limited();
+		const error = await retry_with_backoff(limited, 3, 1).catch(
+			(error: unknown) => error,
+		);
+		expect(error).toBeInstanceOf(ProviderError);
+		expect((error as ProviderError).type).toBe(ErrorType.RATE_LIMIT);
+		expect(
+			(
+				(error as ProviderError).details as { reset_time: Date }
+			).reset_time.getTime(),
+		).toBeGreaterThan(Date.now());
+		expect(calls).toBe(1);
+	});
+
+	it('stops waiting for a token at the deadline or on abort', async () => {
+		rate_limit_config.requests_per_second.linkup = 0.01;
+		const call = async () => 'ok';
+
+		expect(await rate_limited('search', 'linkup', call)).toBe('ok');
+		await expect(
+			rate_limited('search', 'linkup', call, {
+				deadline: Date.now() + 1000,
+			}),
+		).rejects.toMatchObject({ type: ErrorType.RATE_LIMIT });
+
+		const controller = new AbortController();
+		const waiting = rate_limited('search', 'linkup', call, {
+			signal: controller.signal,
+		});
+		controller.abort(new Error('cancelled'));
+		await expect(waiting).rejects.toThrow('cancelled');
+	});
+
+	it('lets only one of several concurrent calls take the last request', async () => {
+		rate_limit_config.daily_quotas.exa = 1;
+		const call = vi.fn(async () => 'ok');
+
+		const outcomes = await Promise.allSettled(
+			[1, 2, 3].map(() => rate_limited('search', 'exa', call)),
+		);
+		expect(outcomes.map((o) => o.status).sort()).toEqual([
+			'fulfilled',
+			'rejected',
+			'rejected',
+		]);
+		expect(call).toHaveBeenCalledTimes(1);
+	});
+
+	it('gives back the quota of a call that never got a token', async () => {
+		rate_limit_config.daily_quotas.kagi_fastgpt = 5;
+		rate_limit_config.requests_per_second.kagi_fastgpt = 0.01;
+		const call = async () => 'ok';
+
+		await rate_limited('ai_response', 'kagi_fastgpt', call);
+		await expect(
+			rate_limited('ai_response', 'kagi_fastgpt', call, {
+				deadline: Date.now() + 1000,
+			}),
+		).rejects.toMatchObject({ type: ErrorType.RATE_LIMIT });
+		expect(
+			await get_quota_usage('ai_response', 'kagi_fastgpt'),
+		).toMatchObject({ day_count: 1 });
+	});
+});
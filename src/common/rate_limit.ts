@@ -0,0 +1,298 @@
+// Client-side rate limiting (token bucket) and persisted quota budgets per provider
+
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { rate_limit_config } from '../config/env.js';
+import { logger } from './logger.js';
+import { ErrorType, ProviderError, provider_key } from './types.js';
+import { delay } from './utils.js';
+
+interface Bucket {
+	tokens: number;
+	updated_at: number;
+}
+
+interface QuotaUsage {
+	day: string; // YYYY-MM-DD (UTC)
+	day_count: number;
+	month: string; // YYYY-MM (UTC)
+	month_count: number;
+}
+
+// Buckets and quota usage are keyed by category.name, since a name
+// such as perplexity can be both a search and an ai_response provider
+const buckets = new Map<string, Bucket>();
+
+let usage_loaded: Promise<Record<string, QuotaUsage>> | undefined;
+let write_chain: Promise<void> = Promise.resolve();
+
+/**
+ * Get the rate limit and quotas that apply to a provider. Entries for
+ * category.name win over entries for the bare name, which apply to
+ * the provider in every category separately.
+ * @param category Provider category
+ * @param provider Provider name
+ * @returns The configured limits; unset fields are undefined
+ */
+export const get_rate_limits = (
+	category: string,
+	provider: string,
+) => {
+	const key = provider_key(category, provider);
+	const { requests_per_second, daily_quotas, monthly_quotas } =
+		rate_limit_config;
+	return {
+		requests_per_second:
+			requests_per_second[key] ?? requests_per_second[provider],
+		daily_quota: daily_quotas[key] ?? daily_quotas[provider],
+		monthly_quota: monthly_quotas[key] ?? monthly_quotas[provider],
+	};
+};
+
+const has_quota_config = (category: string, provider: string) => {
+	const { daily_quota, monthly_quota } = get_rate_limits(
+		category,
+		provider,
+	);
+	return daily_quota !== undefined || monthly_quota !== undefined;
+};
+
+const load_usage = (): Promise<Record<string, QuotaUsage>> =>
+	(usage_loaded ??= readFile(rate_limit_config.quota_file, 'utf8')
+		.then((raw) => JSON.parse(raw) as Record<string, QuotaUsage>)
+		.catch(() => ({})));
+
+const persist_usage = (usage: Record<string, QuotaUsage>) => {
+	const snapshot = JSON.stringify(usage, null, 2);
+	write_chain = write_chain
+		.then(async () => {
+			await mkdir(dirname(rate_limit_config.quota_file), {
+				recursive: true,
+			});
+			await writeFile(rate_limit_config.quota_file, snapshot);
+		})
+		.catch((error) => {
+			logger.error('Failed to persist quota usage', { error });
+		});
+};
+
+// Current usage under a provider key, rolled over when the day or
+// month changes
+const current_usage = (
+	usage: Record<string, QuotaUsage>,
+	key: string,
+): QuotaUsage => {
+	const now = new Date().toISOString();
+	const day = now.slice(0, 10);
+	const month = now.slice(0, 7);
+	const entry = usage[key] ?? {
+		day,
+		day_count: 0,
+		month,
+		month_count: 0,
+	};
+	if (entry.day !== day) {
+		entry.day = day;
+		entry.day_count = 0;
+	}
+	if (entry.month !== month) {
+		entry.month = month;
+		entry.month_count = 0;
+	}
+	usage[key] = entry;
+	return entry;
+};
+
+// The used-up quota in a usage entry, if any, and when it resets
+// (UTC). A used-up monthly quota wins, since it outlasts the daily one.
+const exhausted_quota_of = (
+	entry: QuotaUsage,
+	category: string,
+	provider: string,
+): { reason: string; reset_time: Date } | undefined => {
+	const { daily_quota: daily, monthly_quota: monthly } =
+		get_rate_limits(category, provider);
+	const now = new Date();
+	if (monthly !== undefined && entry.month_count >= monthly) {
+		return {
+			reason: `Monthly quota of ${monthly} requests used`,
+			reset_time: new Date(
+				Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1),
+			),
+		};
+	}
+	if (daily !== undefined && entry.day_count >= daily) {
+		return {
+			reason: `Daily quota of ${daily} requests used`,
+			reset_time: new Date(
+				Date.UTC(
+					now.getUTCFullYear(),
+					now.getUTCMonth(),
+					now.getUTCDate() + 1,
+				),
+			),
+		};
+	}
+	return undefined;
+};
+
+const find_exhausted_quota = async (
+	category: string,
+	provider: string,
+) => {
+	if (!has_quota_config(category, provider)) return undefined;
+	const entry = current_usage(
+		await load_usage(),
+		provider_key(category, provider),
+	);
+	return exhausted_quota_of(entry, category, provider);
+};
+
+// Count a request against the provider's quota, failing if it is used
+// up. Checking and counting happen without an await in between, so
+// concurrent callers cannot all pass the check for the last request.
+// Returns a function that gives the request back if it is never sent.
+const reserve_quota = async (
+	category: string,
+	provider: string,
+): Promise<(() => void) | undefined> => {
+	if (!has_quota_config(category, provider)) return undefined;
+	const usage = await load_usage();
+	const key = provider_key(category, provider);
+	const entry = current_usage(usage, key);
+	const exhausted = exhausted_quota_of(entry, category, provider);
+	if (exhausted) {
+		throw new ProviderError(
+			ErrorType.RATE_LIMIT,
+			`${exhausted.reason} for ${provider}`,
+			provider,
+			{ reset_time: exhausted.reset_time },
+		);
+	}
+	entry.day_count++;
+	entry.month_count++;
+	persist_usage(usage);
+
+	const { day, month } = entry;
+	return () => {
+		const current = current_usage(usage, key);
+		if (current.day === day) current.day_count--;
+		if (current.month === month) current.month_count--;
+		persist_usage(usage);
+	};
+};
+
+/**
+ * Check whether a provider has used up its daily or monthly quota
+ * @param category Provider category
+ * @param provider Provider name
+ * @returns A reason string when over budget, otherwise undefined
+ */
+export const get_quota_exhaustion = async (
+	category: string,
+	provider: string,
+): Promise<string | undefined> =>
+	(await find_exhausted_quota(category, provider))?.reason;
+
+/**
+ * Get a provider's request counts for the current day and month
+ * @param category Provider category
+ * @param provider Provider name
+ * @returns The counts, or undefined when no quota is configured
+ */
+export const get_quota_usage = async (
+	category: string,
+	provider: string,
+): Promise<
+	{ day_count: number; month_count: number } | undefined
+> => {
+	if (!has_quota_config(category, provider)) return undefined;
+	const { day_count, month_count } = current_usage(
+		await load_usage(),
+		provider_key(category, provider),
+	);
+	return { day_count, month_count };
+};
+
+export interface RateLimitOptions {
+	// Epoch ms by which the call must have started
+	deadline?: number;
+	// Caller cancellation; stops the wait for a token
+	signal?: AbortSignal;
+}
+
+// Take one token, waiting for the bucket to refill if it is empty.
+// A wait that would pass the deadline fails instead, with the refill
+// time as the reset time so retries are skipped too.
+const take_token = async (
+	category: string,
+	provider: string,
+	{ deadline, signal }: RateLimitOptions,
+) => {
+	const rate = get_rate_limits(
+		category,
+		provider,
+	).requests_per_second;
+	if (!rate) return;
+	const key = provider_key(category, provider);
+	const capacity = Math.max(1, rate);
+
+	for (;;) {
+		const now = Date.now();
+		const bucket = buckets.get(key) ?? {
+			tokens: capacity,
+			updated_at: now,
+		};
+		bucket.tokens = Math.min(
+			capacity,
+			bucket.tokens + ((now - bucket.updated_at) / 1000) * rate,
+		);
+		bucket.updated_at = now;
+		buckets.set(key, bucket);
+		if (bucket.tokens >= 1) {
+			bucket.tokens -= 1;
+			return;
+		}
+		const wait = Math.ceil(((1 - bucket.tokens) / rate) * 1000);
+		if (deadline !== undefined && now + wait > deadline) {
+			throw new ProviderError(
+				ErrorType.RATE_LIMIT,
+				`Rate limit of ${rate} requests per second for ${provider} leaves no time before the deadline`,
+				provider,
+				{ reset_time: new Date(now + wait) },
+			);
+		}
+		await delay(wait, signal);
+	}
+};
+
+/**
+ * Run an upstream call within the provider's rate limit and quota.
+ * Reserves the request against the quota, failing fast once it is
+ * used up, then waits for a token-bucket slot. A reservation whose
+ * token wait fails is given back. Wrap the whole logical request,
+ * retries included, so it counts once.
+ * @param category Provider category
+ * @param provider Provider name
+ * @param fn The upstream call
+ * @param options Deadline and cancellation signal for the token wait
+ * @returns The call's result
+ * @throws ProviderError RATE_LIMIT when the quota is exhausted or no
+ * token frees up before the deadline, with a reset time that keeps
+ * retry_with_backoff from retrying early
+ */
+export const rate_limited = async <T>(
+	category: string,
+	provider: string,
+	fn: () => Promise<T>,
+	options: RateLimitOptions = {},
+): Promise<T> => {
+	const release_quota = await reserve_quota(category, provider);
+	try {
+		await take_token(category, provider, options);
+	} catch (error) {
+		release_quota?.();
+		throw error;
+	}
+	return fn();
+};
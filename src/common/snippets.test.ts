@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+	budget_snippets,
+	dedupe_snippet_sentences,
+	truncate_text,
+} from './snippets.js';
+
+describe('truncate_text', () => {
+	it('cuts at a word boundary and adds an ellipsis', () => {
+		expect(truncate_text('short', 10)).toBe('short');
+		expect(truncate_text('the quick brown fox jumps', 17)).toBe(
+			'the quick brown…',
+		);
+		expect(truncate_text('abcdefghijklmnop', 6)).toBe('abcde…');
+	});
+});
+
+describe('dedupe_snippet_sentences', () => {
+	it('drops sentences an earlier snippet already covered', () => {
+		expect(
+			dedupe_snippet_sentences([
+				'Node 22 ships a new test runner. It is stable.',
+				'Node 22 ships a brand new test runner! Upgrade today.',
+				'It is stable.',
+			]),
+		).toEqual([
+			'Node 22 ships a new test runner. It is stable.',
+			'Upgrade today.',
+		]);
+	});
+});
+
+describe('budget_snippets', () => {
+	const results = [
+		{
+			url: 'https://a.com',
+			snippets: [
+				'Release notes for the project.',
+				'How to install the vitest runner with pnpm.',
+			],
+		},
+		{
+			url: 'https://b.com',
+			snippets: ['A second result with a long enough snippet.'],
+		},
+	];
+
+	it('keeps the snippet covering most query words in best mode', () => {
+		const [first] = budget_snippets(results, 'install vitest', {
+			mode: 'best',
+			max_chars_per_result: 500,
+			max_chars_total: 2000,
+		});
+
+		expect(first.snippets).toEqual([
+			'How to install the vitest runner with pnpm.',
+		]);
+	});
+
+	it('serves higher-ranked results first from the total budget', () => {
+		const budgeted = budget_snippets(results, 'install vitest', {
+			mode: 'merged',
+			max_chars_per_result: 500,
+			max_chars_total: 80,
+		});
+
+		expect(budgeted[0].snippets).toEqual([
+			'Release notes for the project.',
+			'How to install the vitest runner with pnpm.',
+		]);
+		// 7 chars are left, too few for a useful fragment
+		expect(budgeted[1].snippets).toEqual([]);
+		expect(budgeted[1].url).toBe('https://b.com');
+	});
+
+	it('truncates snippets to the per-result budget', () => {
+		const [first] = budget_snippets(results, 'install vitest', {
+			mode: 'merged',
+			max_chars_per_result: 50,
+			max_chars_total: 2000,
+		});
+
+		expect(first.snippets).toEqual([
+			'Release notes for the project.',
+		]);
+	});
+});
@@ -0,0 +1,154 @@
+// Snippet merging and size budgeting for fused web results
+
+export const SNIPPET_MODES = ['merged', 'best'] as const;
+
+export type SnippetMode = (typeof SNIPPET_MODES)[number];
+
+export const is_snippet_mode = (
+	value: unknown,
+): value is SnippetMode =>
+	typeof value === 'string' &&
+	(SNIPPET_MODES as readonly string[]).includes(value);
+
+export interface SnippetBudget {
+	mode: SnippetMode;
+	max_chars_per_result: number;
+	max_chars_total: number;
+}
+
+// Sentences sharing at least this fraction of words count as overlapping
+const SENTENCE_OVERLAP_THRESHOLD = 0.8;
+const MIN_TRUNCATED_SNIPPET_CHARS = 40;
+
+const word_set = (text: string): Set<string> =>
+	new Set(
+		text
+			.toLowerCase()
+			.split(/[^\p{L}\p{N}]+/u)
+			.filter(Boolean),
+	);
+
+const overlap = (a: Set<string>, b: Set<string>): number => {
+	if (!a.size || !b.size) return 0;
+	let shared = 0;
+	for (const word of a) if (b.has(word)) shared++;
+	return shared / Math.min(a.size, b.size);
+};
+
+const split_sentences = (text: string): string[] =>
+	text
+		.split(/(?<=[.!?])\s+|\n+/)
+		.map((s) => s.trim())
+		.filter(Boolean);
+
+/**
+ * Truncate text to a character budget at a word boundary
+ * @param text Text to truncate
+ * @param max_chars Maximum length including the ellipsis
+ * @returns The text unchanged if it fits, otherwise a shortened copy
+ * ending in an ellipsis
+ */
+export const truncate_text = (
+	text: string,
+	max_chars: number,
+): string => {
+	if (text.length <= max_chars) return text;
+	if (max_chars <= 1) return '';
+	const cut = text.slice(0, max_chars - 1);
+	const boundary = cut.lastIndexOf(' ');
+	return `${(boundary > max_chars / 2 ? cut.slice(0, boundary) : cut).trimEnd()}…`;
+};
+
+/**
+ * Drop sentences that repeat (or nearly repeat) a sentence from an
+ * earlier snippet, so providers quoting the same text add it once
+ * @param snippets Snippets in provider rank order
+ * @returns Snippets reduced to their new sentences; empty ones removed
+ */
+export const dedupe_snippet_sentences = (
+	snippets: string[],
+): string[] => {
+	const seen: Set<string>[] = [];
+	const merged: string[] = [];
+
+	for (const snippet of snippets) {
+		const kept = split_sentences(snippet).filter((sentence) => {
+			const words = word_set(sentence);
+			if (
+				seen.some(
+					(prev) =>
+						overlap(prev, words) >= SENTENCE_OVERLAP_THRESHOLD,
+				)
+			) {
+				return false;
+			}
+			seen.push(words);
+			return true;
+		});
+		if (kept.length) merged.push(kept.join(' '));
+	}
+	return merged;
+};
+
+// Best snippet = most query words covered, ties broken by provider rank
+const pick_best_snippet = (
+	snippets: string[],
+	query_words: Set<string>,
+): string | undefined => {
+	let best: string | undefined;
+	let best_hits = -1;
+	for (const snippet of snippets) {
+		const words = word_set(snippet);
+		let hits = 0;
+		for (const word of query_words) if (words.has(word)) hits++;
+		if (hits > best_hits) {
+			best = snippet;
+			best_hits = hits;
+		}
+	}
+	return best;
+};
+
+/**
+ * Merge and budget the snippets of ranked results. Higher-ranked results
+ * are served first; once the response budget is spent, the remaining
+ * results keep their title and URL but no snippets.
+ * @param results Results in ranked order
+ * @param query The search query, used to pick the best snippet
+ * @param budget Mode and character budgets
+ * @returns Copies of the results with budgeted snippets
+ */
+export const budget_snippets = <T extends { snippets: string[] }>(
+	results: T[],
+	query: string,
+	budget: SnippetBudget,
+): T[] => {
+	const query_words = word_set(query);
+	let remaining = budget.max_chars_total;
+
+	return results.map((result) => {
+		const candidates =
+			budget.mode === 'best'
+				? [pick_best_snippet(result.snippets, query_words)].filter(
+						(s): s is string => s !== undefined,
+					)
+				: dedupe_snippet_sentences(result.snippets);
+
+		let allowance = Math.min(budget.max_chars_per_result, remaining);
+		const snippets: string[] = [];
+		for (const snippet of candidates) {
+			// Skip fragments too short to be useful
+			if (
+				snippet.length > allowance &&
+				allowance < MIN_TRUNCATED_SNIPPET_CHARS
+			) {
+				break;
+			}
+			const text = truncate_text(snippet, allowance);
+			snippets.push(text);
+			allowance -= text.length;
+			remaining -= text.length;
+		}
+		return { ...result, snippets };
+	});
+};
@@ -0,0 +1,130 @@
+// Optional OpenTelemetry tracing. Spans are always created through the
+// API, which is a no-op until setup_tracing registers an SDK provider.
+
+import {
+	SpanStatusCode,
+	trace,
+	type Attributes,
+	type Span,
+} from '@opentelemetry/api';
+import type {
+	SpanExporter,
+	SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { tracing_config } from '../config/env.js';
+import { logger } from './logger.js';
+import { ProviderError } from './types.js';
+
+const tracer = trace.getTracer('mcp-omnisearch');
+
+// Console exporter for local testing. The SDK's ConsoleSpanExporter
+// writes to stdout, which carries the stdio transport, so spans go to
+// the JSON log on stderr instead.
+const log_exporter: SpanExporter = {
+	export: (spans, done) => {
+		for (const span of spans) {
+			const { traceId, spanId } = span.spanContext();
+			logger.info('span', {
+				span: span.name,
+				trace_id: traceId,
+				span_id: spanId,
+				parent_span_id: span.parentSpanContext?.spanId,
+				duration_ms: span.duration[0] * 1000 + span.duration[1] / 1e6,
+				attributes: span.attributes,
+				status:
+					span.status.code === SpanStatusCode.ERROR ? 'error' : 'ok',
+			});
+		}
+		done({ code: 0 });
+	},
+	shutdown: async () => {},
+};
+
+/**
+ * Run a function inside a new active span. The span records the error
+ * type of a ProviderError when the function throws.
+ * @param name Span name
+ * @param attributes Initial span attributes
+ * @param fn The function to run, given the span
+ * @returns The function's result
+ */
+export const with_span = <T>(
+	name: string,
+	attributes: Attributes,
+	fn: (span: Span) => Promise<T>,
+): Promise<T> =>
+	tracer.startActiveSpan(name, { attributes }, async (span) => {
+		try {
+			return await fn(span);
+		} catch (error) {
+			if (error instanceof ProviderError) {
+				span.setAttribute('omnisearch.error_type', error.type);
+			}
+			span.recordException(error as Error);
+			span.setStatus({
+				code: SpanStatusCode.ERROR,
+				message: (error as Error)?.message,
+			});
+			throw error;
+		} finally {
+			span.end();
+		}
+	});
+
+/**
+ * Register the OpenTelemetry SDK with the configured exporter. The SDK
+ * packages are optional dependencies, loaded only when tracing is on.
+ * @param service_name Service name reported on every span
+ * @param service_version Service version reported on every span
+ */
+export const setup_tracing = async (
+	service_name: string,
+	service_version: string,
+) => {
+	if (!tracing_config.exporter) return;
+
+	try {
+		const {
+			NodeTracerProvider,
+			BatchSpanProcessor,
+			SimpleSpanProcessor,
+		} = await import('@opentelemetry/sdk-trace-node');
+		const { resourceFromAttributes } =
+			await import('@opentelemetry/resources');
+
+		// Console spans are for local testing, so they are written
+		// immediately rather than batched
+		let span_processor: SpanProcessor = new SimpleSpanProcessor(
+			log_exporter,
+		);
+		if (tracing_config.exporter === 'otlp') {
+			const { OTLPTraceExporter } =
+				await import('@opentelemetry/exporter-trace-otlp-http');
+			span_processor = new BatchSpanProcessor(
+				new OTLPTraceExporter({ url: tracing_config.otlp_endpoint }),
+			);
+		}
+
+		const provider = new NodeTracerProvider({
+			resource: resourceFromAttributes({
+				'service.name': service_name,
+				'service.version': service_version,
+			}),
+			spanProcessors: [span_processor],
+		});
+		provider.register();
+
+		// Flush buffered spans before exiting
+		process.once('beforeExit', () => {
+			void provider.shutdown();
+		});
+		logger.info('Tracing enabled', {
+			exporter: tracing_config.exporter,
+		});
+	} catch (error) {
+		logger.warn(
+			'Tracing is enabled but the OpenTelemetry SDK packages are not installed',
+			{ error },
+		);
+	}
+};
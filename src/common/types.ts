@@ -14,6 +14,9 @@ export interface BaseSearchParams {
 	limit?: number;
 	include_domains?: string[];
 	exclude_domains?: string[];
+	date_after?: string; // YYYY-MM-DD, inclusive
+	date_before?: string; // YYYY-MM-DD, inclusive
+	language?: string; // ISO 639-1 code
 }
 
 export interface ProcessingResult {
@@ -49,28 +52,67 @@ export interface EnhancementResult {
 	source_provider: string;
 }
 
+// Relative price per request, for choosing between providers
+export type CostTier = 'free' | 'low' | 'medium' | 'high';
+
+// What a concrete provider supports natively, served by the
+// omnisearch://search/{provider}/info resource
+export interface ProviderCapabilities {
+	operators: string[]; // query operators passed through, e.g. site:
+	domain_filter: boolean; // include_domains / exclude_domains
+	date_filter: boolean; // date_after / date_before
+	max_results?: number; // per request, where the API caps it
+	returns_scores: boolean; // upstream relevance scores
+	cost_tier: CostTier;
+}
+
 // Provider interfaces
 export interface SearchProvider {
-	search(params: BaseSearchParams): Promise<SearchResult[]>;
+	// signal cancels in-flight upstream requests (timeouts, MCP cancellation)
+	search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]>;
 	name: string;
 	description: string;
+	// Declared by concrete providers, not the unified wrappers
+	capabilities?: ProviderCapabilities;
 }
 
 export interface ProcessingProvider {
 	process_content(
 		url: string | string[],
 		extract_depth?: 'basic' | 'advanced',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult>;
 	name: string;
 	description: string;
+	// Declared by concrete providers, not the unified wrappers
+	capabilities?: ProviderCapabilities;
 }
 
 export interface EnhancementProvider {
-	enhance_content(content: string): Promise<EnhancementResult>;
+	enhance_content(
+		content: string,
+		signal?: AbortSignal,
+	): Promise<EnhancementResult>;
 	name: string;
 	description: string;
+	// Declared by concrete providers, not the unified wrappers
+	capabilities?: ProviderCapabilities;
 }
 
+/**
+ * Key for per-provider state such as circuits, latency and quotas.
+ * Names alone are ambiguous: perplexity is both a search and an
+ * ai_response provider.
+ * @param category Provider category
+ * @param provider Provider name
+ * @returns The key, e.g. "ai_response.perplexity"
+ */
+export const provider_key = (category: string, provider: string) =>
+	`${category}.${provider}`;
+
 // Error types
 export enum ErrorType {
 	API_ERROR = 'API_ERROR',
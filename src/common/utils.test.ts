@@ -0,0 +1,334 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+	response_budget_config,
+	retry_config,
+	url_canonicalization_config,
+} from '../config/env.js';
+import { ErrorType, ProviderError } from './types.js';
+import {
+	canonicalize_url,
+	handle_large_result,
+	is_retryable_error,
+	parse_rate_limit_reset,
+	retry_with_backoff,
+} from './utils.js';
+
+const default_response_budget = { ...response_budget_config };
+const default_retry = structuredClone(retry_config);
+const default_canonicalization = structuredClone(
+	url_canonicalization_config,
+);
+
+afterEach(() => {
+	Object.assign(response_budget_config, default_response_budget);
+	Object.assign(retry_config, structuredClone(default_retry));
+	Object.assign(
+		url_canonicalization_config,
+		structuredClone(default_canonicalization),
+	);
+	vi.useRealTimers();
+});
+
+describe('canonicalize_url', () => {
+	it('strips tracking params and sorts the rest', () => {
+		expect(
+			canonicalize_url(
+				'https://example.com/a/?utm_source=x&b=2&fbclid=y&a=1#top',
+			),
+		).toBe('https://example.com/a?a=1&b=2');
+	});
+
+	it('matches prefix patterns and custom lists', () => {
+		const url = 'https://example.com/?share_id=1&utm_medium=x&id=2';
+		expect(canonicalize_url(url, ['share_*'])).toBe(
+			'https://example.com?id=2&utm_medium=x',
+		);
+	});
+
+	it('keeps mirrors, schemes and AMP pages apart by default', () => {
+		for (const url of [
+			'http://example.com/news/story',
+			'https://www.example.com/news/story',
+			'https://example.com/amp/news/story',
+			'https://example.com/news/story?amp=1',
+		]) {
+			expect(canonicalize_url(url)).toBe(url);
+		}
+	});
+
+	it('maps mirrors, schemes and AMP pages onto one URL when enabled', () => {
+		url_canonicalization_config.rewrites = [
+			'mirrors',
+			'https',
+			'amp',
+		];
+		const canonical = 'https://example.com/news/story';
+		for (const url of [
+			'http://www.example.com/news/story/',
+			'https://m.example.com:443/news/story',
+			'https://example.com/amp/news/story',
+			'https://example.com/news/story.amp',
+			'https://example.com/news/story?outputType=amp',
+		]) {
+			expect(canonicalize_url(url)).toBe(canonical);
+		}
+		expect(
+			canonicalize_url('http://www.example.com/a', undefined, [
+				'amp',
+			]),
+		).toBe('http://www.example.com/a');
+	});
+
+	it('leaves non-http URLs and unparseable input alone', () => {
+		expect(canonicalize_url('mailto:a@example.com')).toBe(
+			'mailto:a@example.com',
+		);
+		expect(canonicalize_url(' not a url ')).toBe('not a url');
+	});
+
+	it('keeps built-in tracking params configured with a - prefix', () => {
+		const url = 'https://example.com/a?spm=1&utm_source=x&id=2';
+		expect(canonicalize_url(url)).toBe('https://example.com/a?id=2');
+
+		url_canonicalization_config.kept_tracking_params.push('spm');
+		expect(canonicalize_url(url)).toBe(
+			'https://example.com/a?id=2&spm=1',
+		);
+	});
+});
+
+describe('handle_large_result', () => {
+	const ranked = (count: number) => ({
+		query: 'q',
+		web_results: Array.from({ length: count }, (_, i) => ({
+			url: `https://example.com/${i}`,
+			snippet: 'x'.repeat(150),
+		})),
+	});
+
+	it('returns results within the budget unchanged', () => {
+		const result = ranked(3);
+		expect(handle_large_result(result, 'web_search')).toBe(result);
+	});
+
+	it('drops the lowest-ranked results first', () => {
+		Object.assign(response_budget_config, {
+			unit: 'chars',
+			max_size: 2000,
+		});
+		const result = handle_large_result(ranked(20), 'web_search');
+
+		expect(result.web_results.length).toBeLessThan(20);
+		expect(result.web_results[0].url).toBe('https://example.com/0');
+		expect(result).toMatchObject({
+			truncated: {
+				unit: 'chars',
+				budget: 2000,
+				dropped_results: 20 - result.web_results.length,
+			},
+		});
+		expect(
+			JSON.stringify(result, null, 2).length,
+		).toBeLessThanOrEqual(2000);
+	});
+
+	it('shortens the longest text fields and reports tokens', () => {
+		Object.assign(response_budget_config, {
+			unit: 'tokens',
+			max_size: 500,
+		});
+		const result = handle_large_result(
+			{ url: 'https://example.com', content: 'y'.repeat(8000) },
+			'web_extract',
+		);
+
+		expect(result.content).toMatch(/… \[truncated\]$/);
+		expect(result).toMatchObject({
+			truncated: {
+				unit: 'tokens',
+				budget: 500,
+				shortened_fields: ['content'],
+			},
+		});
+		expect(
+			(result as { truncated: { original_size: number } }).truncated
+				.original_size,
+		).toBeGreaterThan(2000);
+	});
+
+	it('wraps a trimmed array as results beside the truncated block', () => {
+		Object.assign(response_budget_config, {
+			unit: 'chars',
+			max_size: 2000,
+		});
+		const list = ranked(20).web_results;
+
+		expect(handle_large_result(list.slice(0, 2), 'github')).toEqual(
+			list.slice(0, 2),
+		);
+		const result = handle_large_result(list, 'github');
+		if (Array.isArray(result)) throw new Error('still an array');
+		expect(result.truncated).toMatchObject({
+			unit: 'chars',
+			dropped_results: list.length - result.results.length,
+		});
+		expect(result.results).toEqual(
+			list.slice(0, result.results.length),
+		);
+	});
+});
+
+describe('parse_rate_limit_reset', () => {
+	const now = Date.parse('2026-01-01T00:00:00Z');
+	const at = (seconds_from_now: number) =>
+		new Date(now + seconds_from_now * 1000);
+
+	it('reads Retry-After as seconds or an HTTP date', () => {
+		vi.useFakeTimers({ now });
+		expect(
+			parse_rate_limit_reset(new Headers({ 'Retry-After': '30' })),
+		).toEqual(at(30));
+		expect(
+			parse_rate_limit_reset(
+				new Headers({
+					'Retry-After': 'Thu, 01 Jan 2026 00:02:00 GMT',
+				}),
+			),
+		).toEqual(at(120));
+	});
+
+	it('reads X-RateLimit-Reset as epoch seconds or a delta', () => {
+		vi.useFakeTimers({ now });
+		expect(
+			parse_rate_limit_reset({
+				'X-RateLimit-Reset': now / 1000 + 60,
+			}),
+		).toEqual(at(60));
+		expect(
+			parse_rate_limit_reset({ 'ratelimit-reset': '15' }),
+		).toEqual(at(15));
+	});
+
+	it('picks the exhausted window from per-window headers', () => {
+		vi.useFakeTimers({ now });
+		expect(
+			parse_rate_limit_reset({
+				'x-ratelimit-reset': '1, 1419704',
+				'x-ratelimit-remaining': '0, 900',
+			}),
+		).toEqual(at(1));
+		expect(
+			parse_rate_limit_reset({
+				'x-ratelimit-reset': '1, 1419704',
+				'x-ratelimit-remaining': '4, 0',
+			}),
+		).toEqual(at(1419704));
+		expect(
+			parse_rate_limit_reset({ 'x-ratelimit-reset': '20, 5' }),
+		).toEqual(at(5));
+	});
+
+	it('returns undefined without a usable header', () => {
+		expect(parse_rate_limit_reset(new Headers())).toBeUndefined();
+		expect(
+			parse_rate_limit_reset({ 'retry-after': 'soon' }),
+		).toBeUndefined();
+	});
+});
+
+describe('retry_with_backoff', () => {
+	const rate_limited = (reset_in_ms: number) =>
+		new ProviderError(ErrorType.RATE_LIMIT, 'slow down', 'brave', {
+			reset_time: new Date(Date.now() + reset_in_ms),
+		});
+
+	it('waits until the rate limit resets before retrying', async () => {
+		vi.useFakeTimers();
+		const fn = vi
+			.fn<() => Promise<string>>()
+			.mockRejectedValueOnce(rate_limited(5000))
+			.mockResolvedValueOnce('ok');
+
+		const result = retry_with_backoff(fn, 3, 10);
+		await vi.advanceTimersByTimeAsync(4999);
+		expect(fn).toHaveBeenCalledTimes(1);
+		await vi.advanceTimersByTimeAsync(1);
+		expect(await result).toBe('ok');
+	});
+
+	it('fails fast when the wait would pass the deadline', async () => {
+		const fn = vi.fn(() => Promise.reject(rate_limited(5000)));
+
+		await expect(
+			retry_with_backoff(fn, 3, 10, { deadline: Date.now() + 1000 }),
+		).rejects.toThrow('slow down');
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('is_retryable_error', () => {
+	it('retries rate limits, upstream failures and network errors', () => {
+		const provider_error = (type: ErrorType) =>
+			new ProviderError(type, 'failed', 'tavily');
+
+		expect(
+			is_retryable_error(provider_error(ErrorType.RATE_LIMIT)),
+		).toBe(true);
+		expect(
+			is_retryable_error(provider_error(ErrorType.PROVIDER_ERROR)),
+		).toBe(true);
+		expect(
+			is_retryable_error(
+				Object.assign(new Error('socket hang up'), {
+					code: 'ECONNRESET',
+				}),
+			),
+		).toBe(true);
+		expect(
+			is_retryable_error(
+				new DOMException('timed out', 'TimeoutError'),
+			),
+		).toBe(true);
+
+		expect(
+			is_retryable_error(provider_error(ErrorType.API_ERROR)),
+		).toBe(false);
+		expect(
+			is_retryable_error(provider_error(ErrorType.INVALID_INPUT)),
+		).toBe(false);
+		expect(is_retryable_error(new Error('bad response'))).toBe(false);
+	});
+});
+
+describe('retry_with_backoff policy', () => {
+	it('fails immediately on a permanent error', async () => {
+		const fn = vi.fn(() =>
+			Promise.reject(
+				new ProviderError(ErrorType.API_ERROR, 'bad key', 'tavily'),
+			),
+		);
+
+		await expect(retry_with_backoff(fn, 3, 1)).rejects.toThrow(
+			'bad key',
+		);
+		expect(fn).toHaveBeenCalledTimes(1);
+	});
+
+	it('applies per-provider retry counts', async () => {
+		retry_config.max_retries.tavily = 1;
+		const fn = vi.fn(() =>
+			Promise.reject(
+				new ProviderError(
+					ErrorType.PROVIDER_ERROR,
+					'upstream 503',
+					'tavily',
+				),
+			),
+		);
+
+		await expect(retry_with_backoff(fn, 5, 1)).rejects.toThrow(
+			'upstream 503',
+		);
+		expect(fn).toHaveBeenCalledTimes(2);
+	});
+});
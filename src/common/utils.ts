@@ -1,13 +1,172 @@
 // Common utility functions for the MCP Omnisearch server
 
-import { ErrorType, ProviderError } from './types.js';
+import {
+	response_budget_config,
+	retry_config,
+	url_canonicalization_config,
+	type UrlRewrite,
+} from '../config/env.js';
+import { logger, with_log_context } from './logger.js';
+import { upstream_retries } from './metrics.js';
+import { with_span } from './tracing.js';
+import { ErrorType, ProviderError, SearchResult } from './types.js';
 
-export const handle_large_result = <T>(
+// Rough token estimate for JSON/English text
+const CHARS_PER_TOKEN = 4;
+// Arrays of ranked results, trimmed from the end when over budget
+const RANKED_RESULT_FIELDS = ['web_results', 'results', 'answers'];
+// Strings shorter than this are never shortened
+const MIN_SHORTENED_FIELD_CHARS = 200;
+// Room left for the truncated block itself
+const TRUNCATION_BLOCK_RESERVE_CHARS = 600;
+const TRUNCATION_MARKER = '… [truncated]';
+
+export interface TruncationInfo {
+	unit: 'chars' | 'tokens';
+	budget: number;
+	original_size: number;
+	final_size: number;
+	dropped_results?: number;
+	shortened_fields?: string[];
+	hint: string;
+}
+
+const measure_response = (value: unknown): number =>
+	JSON.stringify(value, null, 2)?.length ?? 0;
+
+const to_budget_unit = (chars: number): number =>
+	response_budget_config.unit === 'tokens'
+		? Math.ceil(chars / CHARS_PER_TOKEN)
+		: chars;
+
+interface LongField {
+	holder: Record<string, unknown>;
+	key: string;
+	path: string;
+	length: number;
+}
+
+const collect_long_fields = (
+	value: unknown,
+	path: string,
+	fields: LongField[],
+) => {
+	if (!value || typeof value !== 'object') return;
+	for (const [key, child] of Object.entries(value)) {
+		const child_path = Array.isArray(value)
+			? `${path}[${key}]`
+			: path
+				? `${path}.${key}`
+				: key;
+		if (
+			typeof child === 'string' &&
+			child.length > MIN_SHORTENED_FIELD_CHARS
+		) {
+			fields.push({
+				holder: value as Record<string, unknown>,
+				key,
+				path: child_path,
+				length: child.length,
+			});
+		} else {
+			collect_long_fields(child, child_path, fields);
+		}
+	}
+};
+
+/**
+ * Enforce the configured response size budget on a tool result.
+ * Over budget, the lowest-ranked results are dropped first, then the
+ * longest text fields (content, raw_contents, ...) are shortened.
+ * @param result The tool result about to be serialized
+ * @param _provider_name Name of the tool or provider producing it
+ * @returns The result unchanged if it fits; otherwise a trimmed copy with
+ * a `truncated` block describing what was cut. A trimmed array comes
+ * back as `{ results, truncated }`.
+ */
+export function handle_large_result<T extends unknown[]>(
 	result: T,
 	_provider_name: string,
-): T => {
-	return result;
-};
+): T | { results: T; truncated: TruncationInfo };
+export function handle_large_result<T>(
+	result: T,
+	_provider_name: string,
+): T | (T & { truncated: TruncationInfo });
+export function handle_large_result(
+	result: unknown,
+	_provider_name: string,
+): unknown {
+	const { max_size, unit } = response_budget_config;
+	const original_chars = measure_response(result);
+	if (
+		!result ||
+		typeof result !== 'object' ||
+		to_budget_unit(original_chars) <= max_size
+	) {
+		return result;
+	}
+
+	const budget_chars =
+		(unit === 'tokens' ? max_size * CHARS_PER_TOKEN : max_size) -
+		TRUNCATION_BLOCK_RESERVE_CHARS;
+	const working: Record<string, unknown> = JSON.parse(
+		JSON.stringify(
+			Array.isArray(result) ? { results: result } : result,
+		),
+	);
+
+	// Drop lowest-ranked results first, always keeping the top one
+	let dropped_results = 0;
+	for (const field of RANKED_RESULT_FIELDS) {
+		const list = working[field];
+		if (!Array.isArray(list)) continue;
+		while (
+			list.length > 1 &&
+			measure_response(working) > budget_chars
+		) {
+			list.pop();
+			dropped_results++;
+		}
+	}
+
+	// Then shorten the longest text fields until the rest fits
+	const shortened_fields = new Set<string>();
+	for (
+		let excess = measure_response(working) - budget_chars, pass = 0;
+		excess > 0 && pass < 3;
+		excess = measure_response(working) - budget_chars, pass++
+	) {
+		const fields: LongField[] = [];
+		collect_long_fields(working, '', fields);
+		fields.sort((a, b) => b.length - a.length);
+		for (const field of fields) {
+			if (excess <= 0) break;
+			const target = Math.max(
+				MIN_SHORTENED_FIELD_CHARS,
+				field.length - excess - TRUNCATION_MARKER.length,
+			);
+			if (target >= field.length) continue;
+			const text = field.holder[field.key] as string;
+			field.holder[field.key] =
+				text.slice(0, target) + TRUNCATION_MARKER;
+			excess -= field.length - target - TRUNCATION_MARKER.length;
+			shortened_fields.add(field.path);
+		}
+	}
+
+	const truncated: TruncationInfo = {
+		unit,
+		budget: max_size,
+		original_size: to_budget_unit(original_chars),
+		final_size: to_budget_unit(measure_response(working)),
+		...(dropped_results ? { dropped_results } : {}),
+		...(shortened_fields.size
+			? { shortened_fields: Array.from(shortened_fields) }
+			: {}),
+		hint: 'Response exceeded the size budget. Request fewer results (limit), narrow the query, or fetch individual URLs for full content.',
+	};
+	return { ...working, truncated };
+}
 
 const normalize_api_key = (raw: string): string => {
 	// Trim whitespace and strip a single pair of wrapping quotes if present
@@ -29,21 +188,73 @@ export const validate_api_key = (
 	return normalize_api_key(key);
 };
 
+// Header values above this are epoch seconds, below it a delta in seconds
+const EPOCH_SECONDS_THRESHOLD = 1e9;
+
+const parse_reset_value = (
+	value: string,
+	now: number,
+): number | undefined => {
+	const seconds = Number(value.trim());
+	if (!Number.isFinite(seconds) || seconds < 0) return undefined;
+	return seconds > EPOCH_SECONDS_THRESHOLD
+		? seconds * 1000
+		: now + seconds * 1000;
+};
+
 /**
- * Checks if an API key exists and is potentially valid without throwing an error
- * @param key The API key to check
- * @param provider The name of the provider (for logging purposes)
- * @returns boolean indicating if the key exists and is not empty
+ * Work out when a rate limit resets from response headers. Understands
+ * Retry-After (seconds or HTTP date), X-RateLimit-Reset as epoch seconds
+ * (GitHub) or seconds until reset, and Brave's comma-separated
+ * per-window X-RateLimit-Reset/-Remaining pairs.
+ * @param headers Response headers
+ * @returns The reset time, or undefined if no header says
  */
-export const is_api_key_valid = (
-	key: string | undefined,
-	provider: string,
-): boolean => {
-	if (!key || key.trim() === '') {
-		console.warn(`API key not found or empty for ${provider}`);
-		return false;
+export const parse_rate_limit_reset = (
+	headers: Headers | Record<string, string | number | undefined>,
+): Date | undefined => {
+	const get = (name: string): string | undefined => {
+		if (headers instanceof Headers)
+			return headers.get(name) ?? undefined;
+		const key = Object.keys(headers).find(
+			(k) => k.toLowerCase() === name,
+		);
+		const value = key ? headers[key] : undefined;
+		return value === undefined ? undefined : String(value);
+	};
+	const now = Date.now();
+
+	const retry_after = get('retry-after');
+	if (retry_after) {
+		const reset =
+			parse_reset_value(retry_after, now) ?? Date.parse(retry_after);
+		if (Number.isFinite(reset)) return new Date(reset);
 	}
-	return true;
+
+	const reset_header =
+		get('x-ratelimit-reset') ?? get('ratelimit-reset');
+	if (!reset_header) return undefined;
+
+	// Multiple windows (e.g. Brave's "1, 1419704"): use the latest reset
+	// among exhausted windows, or the earliest if none is marked
+	const resets = reset_header
+		.split(',')
+		.map((value) => parse_reset_value(value, now));
+	const remaining = (
+		get('x-ratelimit-remaining') ?? get('ratelimit-remaining')
+	)
+		?.split(',')
+		.map((value) => Number(value.trim()));
+	const exhausted = resets.filter(
+		(reset, i): reset is number =>
+			reset !== undefined && remaining?.[i] === 0,
+	);
+	const candidates = exhausted.length
+		? [Math.max(...exhausted)]
+		: resets.filter((reset): reset is number => reset !== undefined);
+	return candidates.length
+		? new Date(Math.min(...candidates))
+		: undefined;
 };
 
 export const handle_rate_limit = (
@@ -60,6 +271,71 @@ export const handle_rate_limit = (
 	);
 };
 
+// Socket-level failure codes from Node's fetch (undici) and net modules
+const NETWORK_ERROR_CODES = [
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'ENOTFOUND',
+	'EAI_AGAIN',
+	'EPIPE',
+	'UND_ERR_SOCKET',
+	'UND_ERR_CONNECT_TIMEOUT',
+	'UND_ERR_HEADERS_TIMEOUT',
+	'UND_ERR_BODY_TIMEOUT',
+];
+
+/**
+ * Check whether an error is a network failure or request timeout
+ * (as opposed to an error response from the provider)
+ * @param error The error to check
+ * @returns boolean indicating if the request never got a response
+ */
+export const is_network_error = (error: unknown): boolean => {
+	if (!(error instanceof Error)) return false;
+	if (error.name === 'TimeoutError') return true;
+	if (
+		error instanceof TypeError &&
+		error.message === 'fetch failed'
+	) {
+		return true;
+	}
+	const { code, cause } = error as {
+		code?: unknown;
+		cause?: { code?: unknown };
+	};
+	const error_code = code ?? cause?.code;
+	return (
+		typeof error_code === 'string' &&
+		NETWORK_ERROR_CODES.includes(error_code)
+	);
+};
+
+/**
+ * Check whether an error comes from a caller cancelling the request
+ * (as opposed to a provider-side timeout)
+ * @param error The error to check
+ * @returns boolean indicating if the request was aborted by the caller
+ */
+export const is_abort_error = (error: unknown): boolean =>
+	error instanceof Error && error.name === 'AbortError';
+
+/**
+ * Build the signal for an upstream request: aborts when the request's
+ * own timeout elapses or when the caller cancels
+ * @param timeout_ms Per-request timeout in milliseconds
+ * @param signal Caller's cancellation signal, if any
+ * @returns The combined signal
+ */
+export const timeout_signal = (
+	timeout_ms: number,
+	signal?: AbortSignal,
+): AbortSignal =>
+	signal
+		? AbortSignal.any([AbortSignal.timeout(timeout_ms), signal])
+		: AbortSignal.timeout(timeout_ms);
+
 /**
  * Standardized error handler for provider operations
  * @param error The error that occurred
@@ -73,7 +349,9 @@ export function handle_provider_error(
 	provider_name: string,
 	operation: string = 'operation',
 ): never {
-	if (error instanceof ProviderError) {
+	// Caller cancellations pass through so they are not retried or
+	// counted against the provider
+	if (error instanceof ProviderError || is_abort_error(error)) {
 		throw error;
 	}
 	const error_message =
@@ -86,8 +364,11 @@ export function handle_provider_error(
 	if (error instanceof Error && error.stack) {
 		original.stack = error.stack;
 	}
+	// Network failures and timeouts are transient, like upstream 5xx
 	const provider_error = new ProviderError(
-		ErrorType.API_ERROR,
+		is_network_error(error)
+			? ErrorType.PROVIDER_ERROR
+			: ErrorType.API_ERROR,
 		`Failed to ${operation}: ${original.message}`,
 		provider_name,
 	);
@@ -165,6 +446,215 @@ export const extract_domain = (url: string): string => {
 	}
 };
 
+// Query parameters that only track clicks/campaigns; a trailing * matches a prefix
+export const DEFAULT_TRACKING_PARAMS = [
+	'utm_*',
+	'gclid',
+	'gclsrc',
+	'dclid',
+	'fbclid',
+	'msclkid',
+	'mc_cid',
+	'mc_eid',
+	'_ga',
+	'_gl',
+	'yclid',
+	'igshid',
+	'ref_src',
+	'ref_url',
+	'spm',
+];
+
+// Host prefixes for mobile/AMP mirrors of the same document
+const MIRROR_HOST_PREFIXES = ['www.', 'm.', 'mobile.', 'amp.'];
+
+// Params that select an AMP rendering of the same document
+const AMP_PARAMS = ['amp', 'outputtype'];
+
+const is_tracking_param = (
+	name: string,
+	tracking_params: readonly string[],
+): boolean => {
+	const lower = name.toLowerCase();
+	return tracking_params.some((pattern) => {
+		const p = pattern.toLowerCase();
+		return p.endsWith('*')
+			? lower.startsWith(p.slice(0, -1))
+			: lower === p;
+	});
+};
+
+/**
+ * Canonicalize a URL so variants of the same document share one key.
+ * Drops fragments, trailing slashes and tracking parameters, and sorts
+ * the remaining query parameters. The rewrites enabled in
+ * OMNISEARCH_URL_REWRITES also drop www./m./amp. host prefixes
+ * (mirrors), normalize the scheme to https and drop ports 80 and 443
+ * (https), and drop AMP path segments and amp/outputType params (amp).
+ * @param url The URL to canonicalize
+ * @param tracking_params Parameter names to strip (trailing * = prefix);
+ * defaults to the built-in list plus OMNISEARCH_TRACKING_PARAMS, whose
+ * "-name" entries remove a built-in one instead
+ * @param rewrites Lossy rewrites to apply; defaults to the configured
+ * ones
+ * @returns The canonical URL, or the trimmed input if it can't be parsed
+ */
+export const canonicalize_url = (
+	url: string,
+	tracking_params: readonly string[] = [
+		...DEFAULT_TRACKING_PARAMS.filter(
+			(param) =>
+				!url_canonicalization_config.kept_tracking_params.includes(
+					param.toLowerCase(),
+				),
+		),
+		...url_canonicalization_config.extra_tracking_params,
+	],
+	rewrites: readonly UrlRewrite[] = url_canonicalization_config.rewrites,
+): string => {
+	let parsed: URL;
+	try {
+		parsed = new URL(url.trim());
+	} catch {
+		return url.trim();
+	}
+	if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+		return parsed.href;
+	}
+
+	const https = rewrites.includes('https');
+	const amp = rewrites.includes('amp');
+
+	let host = parsed.hostname;
+	if (rewrites.includes('mirrors')) {
+		for (const prefix of MIRROR_HOST_PREFIXES) {
+			if (host.startsWith(prefix) && host.split('.').length > 2) {
+				host = host.slice(prefix.length);
+				break;
+			}
+		}
+	}
+	const port =
+		parsed.port &&
+		!(https && (parsed.port === '80' || parsed.port === '443'))
+			? `:${parsed.port}`
+			: '';
+
+	let path = parsed.pathname;
+	if (amp) {
+		// /amp/article, /article/amp and /article.amp.html all point at
+		// /article
+		path = path
+			.replace(/^\/amp(?=\/)/, '')
+			.replace(/\/amp\/?$/, '')
+			.replace(/\.amp(\.html?)?$/, '$1');
+	}
+	path = path.replace(/\/+$/, '');
+
+	const params = Array.from(parsed.searchParams.entries())
+		.filter(
+			([name]) =>
+				!is_tracking_param(name, tracking_params) &&
+				!(amp && AMP_PARAMS.includes(name.toLowerCase())),
+		)
+		.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+	const query = params.length
+		? `?${new URLSearchParams(params).toString()}`
+		: '';
+
+	const scheme = https ? 'https:' : parsed.protocol;
+	return `${scheme}//${host}${port}${path}${query}`;
+};
+
+/**
+ * Check whether a URL belongs to a domain or one of its subdomains
+ * @param url The URL to check
+ * @param domain A bare domain (example.com) or URL (https://example.com)
+ * @returns boolean indicating if the URL's host matches the domain
+ */
+export const url_matches_domain = (
+	url: string,
+	domain: string,
+): boolean => {
+	const host = extract_domain(url);
+	const target = extract_domain(
+		domain.includes('://') ? domain : `https://${domain}`,
+	);
+	if (!host || !target) return false;
+	return host === target || host.endsWith(`.${target}`);
+};
+
+export interface SearchResultFilters {
+	include_domains?: string[];
+	exclude_domains?: string[];
+	date_after?: string;
+	date_before?: string;
+}
+
+const get_published_date = (
+	result: SearchResult,
+): Date | undefined => {
+	const raw =
+		result.metadata?.publishedDate ?? result.metadata?.published_date;
+	if (typeof raw !== 'string') return undefined;
+	const date = new Date(raw);
+	return isNaN(date.getTime()) ? undefined : date;
+};
+
+/**
+ * Apply domain and date filters to search results after the fact
+ * Covers providers whose APIs cannot filter natively. Results without a
+ * known publication date are kept when a date range is set.
+ * @param results Search results to filter
+ * @param filters Domain and date filters to apply
+ * @returns Results that satisfy every filter
+ */
+export const filter_search_results = (
+	results: SearchResult[],
+	filters: SearchResultFilters,
+): SearchResult[] => {
+	const {
+		include_domains,
+		exclude_domains,
+		date_after,
+		date_before,
+	} = filters;
+	const after = date_after ? new Date(date_after) : undefined;
+	const before = date_before
+		? new Date(`${date_before}T23:59:59.999Z`)
+		: undefined;
+
+	return results.filter((result) => {
+		if (
+			include_domains?.length &&
+			!include_domains.some((d) => url_matches_domain(result.url, d))
+		) {
+			return false;
+		}
+		if (
+			exclude_domains?.some((d) => url_matches_domain(result.url, d))
+		) {
+			return false;
+		}
+		if (after || before) {
+			const published = get_published_date(result);
+			if (published && after && published < after) return false;
+			if (published && before && published > before) return false;
+		}
+		return true;
+	});
+};
+
+/**
+ * Convert a YYYY-MM-DD date into the M/D/YYYY form used by some providers
+ * @param date Date string in YYYY-MM-DD format
+ * @returns Date string in M/D/YYYY format
+ */
+export const to_us_date = (date: string): string => {
+	const [year, month, day] = date.split('-').map(Number);
+	return `${month}/${day}/${year}`;
+};
+
 export const is_valid_url = (url: string): boolean => {
 	try {
 		new URL(url);
@@ -200,29 +690,138 @@ export const validate_processing_urls = (
 	return urls;
 };
 
-export const delay = (ms: number): Promise<void> => {
-	return new Promise((resolve) => setTimeout(resolve, ms));
+export const delay = (
+	ms: number,
+	signal?: AbortSignal,
+): Promise<void> => {
+	return new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const on_abort = () => {
+			clearTimeout(timer);
+			reject(signal?.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', on_abort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', on_abort, { once: true });
+	});
 };
 
+export interface RetryOptions {
+	// Epoch ms after which no retry is started
+	deadline?: number;
+	// Provider whose configured retry policy applies (defaults to the
+	// provider named in the error)
+	provider?: string;
+	// Caller cancellation; stops the backoff wait and further attempts
+	signal?: AbortSignal;
+}
+
+/**
+ * Check whether a failed call is worth retrying: rate limits, upstream
+ * 5xx and network/timeout failures. Auth, access and input errors are
+ * permanent and fail immediately.
+ * @param error The error from the failed attempt
+ * @returns boolean indicating if the call may succeed on retry
+ */
+export const is_retryable_error = (error: unknown): boolean => {
+	if (error instanceof ProviderError) {
+		return (
+			error.type === ErrorType.RATE_LIMIT ||
+			error.type === ErrorType.PROVIDER_ERROR
+		);
+	}
+	return is_network_error(error);
+};
+
+// Wait requested by a rate-limit error's reset time, if any
+const get_rate_limit_wait = (error: unknown): number | undefined => {
+	if (
+		!(error instanceof ProviderError) ||
+		error.type !== ErrorType.RATE_LIMIT
+	) {
+		return undefined;
+	}
+	const reset_time = (error.details as { reset_time?: unknown })
+		?.reset_time;
+	return reset_time instanceof Date
+		? Math.max(0, reset_time.getTime() - Date.now())
+		: undefined;
+};
+
+/**
+ * Retry an operation with jittered exponential backoff. Only retryable
+ * errors (see is_retryable_error) are retried; rate-limit errors that
+ * carry a reset time wait exactly until that reset instead.
+ * @param fn The operation
+ * @param max_retries Retries after the first attempt
+ * @param initial_delay Backoff before the first retry, doubled each time
+ * @param options Caller deadline, provider and cancellation signal; a
+ * retry whose wait would pass the deadline (or exceed the configured
+ * max wait) is skipped, cancellation stops further attempts, and
+ * per-provider retry settings override max_retries and initial_delay
+ * @returns The operation's result
+ */
 export const retry_with_backoff = async <T>(
 	fn: () => Promise<T>,
 	max_retries: number = 3,
 	initial_delay: number = 1000,
+	options: RetryOptions = {},
 ): Promise<T> => {
-	let last_error: unknown;
-	for (let attempt = 0; attempt <= max_retries; attempt++) {
+	// Ends by returning or by throwing once retries are used up
+	for (let attempt = 0; ; attempt++) {
+		options.signal?.throwIfAborted();
 		try {
-			return await fn();
+			// Upstream request logs and spans carry the retry count
+			return await with_span(
+				'retry attempt',
+				{
+					'omnisearch.provider': options.provider,
+					'omnisearch.retry': attempt,
+				},
+				() => with_log_context({ retry: attempt }, fn),
+			);
 		} catch (error) {
-			last_error = error;
-			if (attempt >= max_retries) {
+			if (options.signal?.aborted) throw error;
+			const provider =
+				options.provider ??
+				(error instanceof ProviderError ? error.provider : undefined);
+			const overrides = provider
+				? {
+						max_retries: retry_config.max_retries[provider],
+						base_delay: retry_config.base_delay_ms[provider],
+					}
+				: {};
+			const retries = overrides.max_retries ?? max_retries;
+			const base_delay = overrides.base_delay ?? initial_delay;
+			if (attempt >= retries || !is_retryable_error(error)) {
+				throw error;
+			}
+			// Equal jitter: half the backoff fixed, half random
+			const delay_time =
+				get_rate_limit_wait(error) ??
+				base_delay * Math.pow(2, attempt) * (0.5 + Math.random() / 2);
+			if (
+				delay_time > retry_config.max_wait_ms ||
+				(options.deadline !== undefined &&
+					Date.now() + delay_time > options.deadline)
+			) {
 				throw error;
 			}
-			const delay_time = initial_delay * Math.pow(2, attempt);
-			await delay(delay_time);
+			upstream_retries.inc({ provider: provider ?? 'unknown' });
+			logger.warn('retrying upstream call', {
+				provider,
+				retry: attempt + 1,
+				delay_ms: Math.round(delay_time),
+				error,
+			});
+			await delay(delay_time, options.signal);
 		}
 	}
-	throw last_error;
 };
 
 export interface SearchOperator {
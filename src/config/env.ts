@@ -1,5 +1,66 @@
 // Environment variable configuration for the MCP Omnisearch server
 
+import { homedir, tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	DEFAULT_RRF_K,
+	is_fusion_strategy,
+} from '../common/fusion.js';
+import { DEFAULT_SIMHASH_DISTANCE } from '../common/dedup.js';
+import {
+	is_snippet_mode,
+	SnippetBudget,
+} from '../common/snippets.js';
+
+// Parse "provider:value,provider:value" lists used by per-provider settings
+export const parse_provider_map = (
+	raw: string | undefined,
+): Record<string, string> => {
+	const map: Record<string, string> = {};
+	for (const pair of (raw ?? '').split(',')) {
+		const index = pair.indexOf(':');
+		if (index <= 0) continue;
+		const key = pair.slice(0, index).trim();
+		const value = pair.slice(index + 1).trim();
+		if (key && value) map[key] = value;
+	}
+	return map;
+};
+
+const parse_provider_numbers = (
+	raw: string | undefined,
+): Record<string, number> => {
+	const numbers: Record<string, number> = {};
+	for (const [key, value] of Object.entries(
+		parse_provider_map(raw),
+	)) {
+		const parsed = Number(value);
+		if (Number.isFinite(parsed)) numbers[key] = parsed;
+	}
+	return numbers;
+};
+
+// Per-provider numbers that must be positive; other entries are dropped
+const parse_positive_provider_numbers = (
+	raw: string | undefined,
+): Record<string, number> =>
+	Object.fromEntries(
+		Object.entries(parse_provider_numbers(raw)).filter(
+			([, value]) => value > 0,
+		),
+	);
+
+// Parse a positive number, falling back when unset or invalid
+const parse_positive_number = (
+	raw: string | undefined,
+	fallback: number,
+): number => {
+	const parsed = Number(raw);
+	return raw && Number.isFinite(parsed) && parsed > 0
+		? parsed
+		: fallback;
+};
+
 // Search provider API keys
 export const TAVILY_API_KEY = process.env.TAVILY_API_KEY;
 export const BRAVE_API_KEY = process.env.BRAVE_API_KEY;
@@ -18,6 +79,109 @@ export const GEMINI_API_KEY = process.env.GEMINI_API_KEY;
 export const OMNISEARCH_EXPOSE_ALL_TOOLS =
 	process.env.OMNISEARCH_EXPOSE_ALL_TOOLS === 'true';
 
+// web_search result fusion defaults (overridable per call)
+export const OMNISEARCH_FUSION_STRATEGY =
+	process.env.OMNISEARCH_FUSION_STRATEGY;
+export const OMNISEARCH_FUSION_WEIGHTS =
+	process.env.OMNISEARCH_FUSION_WEIGHTS;
+export const OMNISEARCH_RRF_K = process.env.OMNISEARCH_RRF_K;
+
+// Near-duplicate clustering default for web_search (overridable per call)
+export const OMNISEARCH_COLLAPSE_DUPLICATES =
+	process.env.OMNISEARCH_COLLAPSE_DUPLICATES === 'true';
+export const OMNISEARCH_SIMHASH_DISTANCE =
+	process.env.OMNISEARCH_SIMHASH_DISTANCE;
+
+// Snippet budgeting defaults for web_search (overridable per call)
+export const OMNISEARCH_SNIPPET_MODE =
+	process.env.OMNISEARCH_SNIPPET_MODE;
+export const OMNISEARCH_SNIPPET_MAX_CHARS =
+	process.env.OMNISEARCH_SNIPPET_MAX_CHARS;
+export const OMNISEARCH_SNIPPET_TOTAL_CHARS =
+	process.env.OMNISEARCH_SNIPPET_TOTAL_CHARS;
+
+// Response size budget enforced on every tool result
+export const OMNISEARCH_MAX_RESPONSE_SIZE =
+	process.env.OMNISEARCH_MAX_RESPONSE_SIZE;
+export const OMNISEARCH_RESPONSE_SIZE_UNIT =
+	process.env.OMNISEARCH_RESPONSE_SIZE_UNIT;
+
+// Pagination of oversized web_search/process results (served by fetch_more)
+export const OMNISEARCH_PAGE_SIZE = process.env.OMNISEARCH_PAGE_SIZE;
+export const OMNISEARCH_PAGE_TTL_MS =
+	process.env.OMNISEARCH_PAGE_TTL_MS;
+
+// Response cache: memory (default), disk or off
+export const OMNISEARCH_CACHE = process.env.OMNISEARCH_CACHE;
+export const OMNISEARCH_CACHE_DIR = process.env.OMNISEARCH_CACHE_DIR;
+export const OMNISEARCH_CACHE_MAX_ENTRIES =
+	process.env.OMNISEARCH_CACHE_MAX_ENTRIES;
+export const OMNISEARCH_CACHE_TTLS =
+	process.env.OMNISEARCH_CACHE_TTLS;
+
+// Client-side rate limits and quota budgets, as "provider:value" lists
+export const OMNISEARCH_RATE_LIMITS =
+	process.env.OMNISEARCH_RATE_LIMITS;
+export const OMNISEARCH_DAILY_QUOTAS =
+	process.env.OMNISEARCH_DAILY_QUOTAS;
+export const OMNISEARCH_MONTHLY_QUOTAS =
+	process.env.OMNISEARCH_MONTHLY_QUOTAS;
+export const OMNISEARCH_QUOTA_FILE =
+	process.env.OMNISEARCH_QUOTA_FILE;
+
+// Circuit breaker for failing web_search/answer sub-providers
+export const OMNISEARCH_BREAKER_THRESHOLD =
+	process.env.OMNISEARCH_BREAKER_THRESHOLD;
+export const OMNISEARCH_BREAKER_COOLDOWN_MS =
+	process.env.OMNISEARCH_BREAKER_COOLDOWN_MS;
+
+// Retry policy for upstream calls
+export const OMNISEARCH_MAX_RETRY_WAIT_MS =
+	process.env.OMNISEARCH_MAX_RETRY_WAIT_MS;
+// Per-provider overrides, e.g. "kagi:0,tavily:2" and "brave:250"
+export const OMNISEARCH_MAX_RETRIES =
+	process.env.OMNISEARCH_MAX_RETRIES;
+export const OMNISEARCH_RETRY_DELAY_MS =
+	process.env.OMNISEARCH_RETRY_DELAY_MS;
+
+// Hedged web_search: primaries queried first, backups after a delay
+export const OMNISEARCH_HEDGE_PRIMARIES =
+	process.env.OMNISEARCH_HEDGE_PRIMARIES;
+export const OMNISEARCH_HEDGE_PERCENTILE =
+	process.env.OMNISEARCH_HEDGE_PERCENTILE;
+export const OMNISEARCH_HEDGE_DELAY_MS =
+	process.env.OMNISEARCH_HEDGE_DELAY_MS;
+
+// Upstream request timeouts adapt to observed latency within these bounds
+export const OMNISEARCH_TIMEOUT_FLOOR_MS =
+	process.env.OMNISEARCH_TIMEOUT_FLOOR_MS;
+export const OMNISEARCH_TIMEOUT_CEILING_MS =
+	process.env.OMNISEARCH_TIMEOUT_CEILING_MS;
+// Fixed per-provider timeouts, e.g. "brave:5000,you_search:120000"
+export const OMNISEARCH_TIMEOUTS = process.env.OMNISEARCH_TIMEOUTS;
+
+// Minimum level of the JSON log lines: debug, info, warn or error
+export const OMNISEARCH_LOG_LEVEL = process.env.OMNISEARCH_LOG_LEVEL;
+
+// OpenTelemetry tracing: "otlp" or "console" (spans as JSON log lines)
+export const OMNISEARCH_TRACING = process.env.OMNISEARCH_TRACING;
+// OTLP/HTTP traces endpoint, e.g. http://localhost:4318/v1/traces
+export const OMNISEARCH_OTLP_ENDPOINT =
+	process.env.OMNISEARCH_OTLP_ENDPOINT;
+
+// Reachability probes behind /readyz and the provider status resource;
+// off unless an interval is set
+export const OMNISEARCH_PROBE_INTERVAL_MS =
+	process.env.OMNISEARCH_PROBE_INTERVAL_MS;
+
+// Extra query parameters stripped when canonicalizing URLs for dedup
+export const OMNISEARCH_TRACKING_PARAMS =
+	process.env.OMNISEARCH_TRACKING_PARAMS;
+
+// Lossy URL rewrites for dedup, e.g. "mirrors,https,amp"; off unless set
+export const OMNISEARCH_URL_REWRITES =
+	process.env.OMNISEARCH_URL_REWRITES;
+
 // Content processing API keys
 export const JINA_AI_API_KEY = process.env.JINA_AI_API_KEY;
 export const FIRECRAWL_API_KEY = process.env.FIRECRAWL_API_KEY;
@@ -191,23 +355,213 @@ export const config = {
 	},
 };
 
-// Validate environment variables and log availability
-export const validate_config = () => {
-	const all_keys: Array<[string, string | undefined]> = [
-		['TAVILY_API_KEY', TAVILY_API_KEY],
-		['BRAVE_API_KEY', BRAVE_API_KEY],
-		['BRAVE_ANSWER_API_KEY', BRAVE_ANSWER_API_KEY],
-		['KAGI_API_KEY', KAGI_API_KEY],
-		['GITHUB_API_KEY', GITHUB_API_KEY],
-		['PERPLEXITY_API_KEY', PERPLEXITY_API_KEY],
-		['GEMINI_API_KEY', GEMINI_API_KEY],
-		['JINA_AI_API_KEY', JINA_AI_API_KEY],
-		['FIRECRAWL_API_KEY', FIRECRAWL_API_KEY],
-		['EXA_API_KEY', EXA_API_KEY],
-		['SERPAPI_API_KEY', SERPAPI_API_KEY],
-		['LINKUP_API_KEY', LINKUP_API_KEY],
-		['YOU_API_KEY', YOU_API_KEY],
-	];
+export const fusion_config = {
+	strategy: is_fusion_strategy(OMNISEARCH_FUSION_STRATEGY)
+		? OMNISEARCH_FUSION_STRATEGY
+		: 'rrf',
+	weights: parse_provider_numbers(OMNISEARCH_FUSION_WEIGHTS), // e.g. "kagi:2,brave:1.5"
+	rrf_k: parse_positive_number(OMNISEARCH_RRF_K, DEFAULT_RRF_K),
+};
+
+const tracking_param_entries = (OMNISEARCH_TRACKING_PARAMS ?? '')
+	.split(',')
+	.map((param) => param.trim())
+	.filter(Boolean);
+
+export const URL_REWRITES = ['mirrors', 'https', 'amp'] as const;
+
+export type UrlRewrite = (typeof URL_REWRITES)[number];
+
+const url_rewrite_entries = (OMNISEARCH_URL_REWRITES ?? '')
+	.split(',')
+	.map((rewrite) => rewrite.trim().toLowerCase())
+	.filter(Boolean);
+
+const is_url_rewrite = (value: string): value is UrlRewrite =>
+	(URL_REWRITES as readonly string[]).includes(value);
+
+export const url_canonicalization_config = {
+	// Rewrites that map variants of a page onto one URL: drop
+	// www./m./amp. host prefixes, force https, and drop AMP paths and
+	// the amp/outputType params
+	rewrites: url_rewrite_entries.filter(is_url_rewrite),
+	// e.g. "ref,source,share_*" is added to the built-in list
+	extra_tracking_params: tracking_param_entries.filter(
+		(param) => !param.startsWith('-'),
+	),
+	// e.g. "-amp,-spm" keeps those built-in entries in URLs
+	kept_tracking_params: tracking_param_entries
+		.filter((param) => param.startsWith('-'))
+		.map((param) => param.slice(1).toLowerCase()),
+};
+
+export const near_duplicate_config = {
+	enabled: OMNISEARCH_COLLAPSE_DUPLICATES,
+	max_distance:
+		OMNISEARCH_SIMHASH_DISTANCE &&
+		Number(OMNISEARCH_SIMHASH_DISTANCE) >= 0
+			? Number(OMNISEARCH_SIMHASH_DISTANCE)
+			: DEFAULT_SIMHASH_DISTANCE,
+};
+
+export const snippet_config: SnippetBudget = {
+	mode: is_snippet_mode(OMNISEARCH_SNIPPET_MODE)
+		? OMNISEARCH_SNIPPET_MODE
+		: 'merged',
+	max_chars_per_result: parse_positive_number(
+		OMNISEARCH_SNIPPET_MAX_CHARS,
+		1000,
+	),
+	max_chars_total: parse_positive_number(
+		OMNISEARCH_SNIPPET_TOTAL_CHARS,
+		20000,
+	),
+};
+
+const response_size_unit: 'chars' | 'tokens' =
+	OMNISEARCH_RESPONSE_SIZE_UNIT === 'chars' ? 'chars' : 'tokens';
+
+export const response_budget_config = {
+	unit: response_size_unit,
+	// Estimated tokens (chars / 4) unless the unit is chars
+	max_size: parse_positive_number(
+		OMNISEARCH_MAX_RESPONSE_SIZE,
+		response_size_unit === 'chars' ? 80000 : 20000,
+	),
+};
+
+export const pagination_config = {
+	// Same unit as the response budget; defaults to 75% of it
+	page_size: parse_positive_number(
+		OMNISEARCH_PAGE_SIZE,
+		Math.floor(response_budget_config.max_size * 0.75),
+	),
+	ttl_ms: parse_positive_number(
+		OMNISEARCH_PAGE_TTL_MS,
+		15 * 60 * 1000,
+	),
+	max_entries: 100,
+};
+
+const cache_ttl_overrides = parse_provider_numbers(
+	OMNISEARCH_CACHE_TTLS,
+);
+
+export const cache_config = {
+	backend:
+		OMNISEARCH_CACHE === 'off' || OMNISEARCH_CACHE === 'disk'
+			? OMNISEARCH_CACHE
+			: 'memory',
+	dir: OMNISEARCH_CACHE_DIR || join(tmpdir(), 'mcp-omnisearch-cache'),
+	max_entries: parse_positive_number(
+		OMNISEARCH_CACHE_MAX_ENTRIES,
+		500,
+	),
+	// Milliseconds per category, e.g. "search:300000,processing:86400000"; 0 disables
+	ttls: {
+		search: 10 * 60 * 1000,
+		ai_response: 10 * 60 * 1000,
+		processing: 60 * 60 * 1000,
+		enhancement: 60 * 60 * 1000,
+		...cache_ttl_overrides,
+	} as Record<string, number>,
+};
+
+export const rate_limit_config = {
+	requests_per_second: parse_positive_provider_numbers(
+		OMNISEARCH_RATE_LIMITS,
+	), // e.g. "brave:1,kagi:5"
+	daily_quotas: parse_provider_numbers(OMNISEARCH_DAILY_QUOTAS), // e.g. "tavily:1000"
+	monthly_quotas: parse_provider_numbers(OMNISEARCH_MONTHLY_QUOTAS), // e.g. "serpapi:250"
+	// Quota usage survives restarts here
+	quota_file:
+		OMNISEARCH_QUOTA_FILE ||
+		join(homedir(), '.mcp-omnisearch', 'quota-usage.json'),
+};
+
+export const circuit_breaker_config = {
+	// Consecutive outage failures (5xx or timeout) before the circuit opens
+	threshold: parse_positive_number(OMNISEARCH_BREAKER_THRESHOLD, 5),
+	cooldown_ms: parse_positive_number(
+		OMNISEARCH_BREAKER_COOLDOWN_MS,
+		60 * 1000,
+	),
+};
+
+export const retry_config = {
+	// Longer Retry-After/backoff waits fail fast instead of blocking the call
+	max_wait_ms: parse_positive_number(
+		OMNISEARCH_MAX_RETRY_WAIT_MS,
+		30000,
+	),
+	// Override the caller's retry count and initial backoff per provider
+	max_retries: parse_provider_numbers(OMNISEARCH_MAX_RETRIES),
+	base_delay_ms: parse_provider_numbers(OMNISEARCH_RETRY_DELAY_MS),
+};
+
+export const hedge_config = {
+	primaries: Math.max(
+		1,
+		Math.floor(parse_positive_number(OMNISEARCH_HEDGE_PRIMARIES, 2)),
+	),
+	// Backups fire once the primaries run past this latency percentile
+	percentile: Math.min(
+		parse_positive_number(OMNISEARCH_HEDGE_PERCENTILE, 0.95),
+		1,
+	),
+	// Used for primaries without enough latency history yet
+	default_delay_ms: parse_positive_number(
+		OMNISEARCH_HEDGE_DELAY_MS,
+		1500,
+	),
+};
+
+export const timeout_config = {
+	floor_ms: parse_positive_number(OMNISEARCH_TIMEOUT_FLOOR_MS, 2000),
+	ceiling_ms: parse_positive_number(
+		OMNISEARCH_TIMEOUT_CEILING_MS,
+		120000,
+	),
+	// Headroom over the observed p95 so only real outliers time out
+	p95_multiplier: 2,
+	// Used as-is, bypassing the adaptive timeout
+	overrides: parse_provider_numbers(OMNISEARCH_TIMEOUTS),
+};
+
+export const log_config = {
+	level: (OMNISEARCH_LOG_LEVEL ?? 'info').toLowerCase(),
+};
+
+export const tracing_config = {
+	// Tracing stays off (no SDK loaded) unless an exporter is chosen
+	exporter:
+		OMNISEARCH_TRACING === 'otlp' || OMNISEARCH_TRACING === 'console'
+			? OMNISEARCH_TRACING
+			: undefined,
+	otlp_endpoint: OMNISEARCH_OTLP_ENDPOINT,
+};
+
+export const health_config = {
+	// Probe results are reused until they are this old
+	probe_interval_ms: parse_positive_number(
+		OMNISEARCH_PROBE_INTERVAL_MS,
+		0,
+	),
+	probe_timeout_ms: 5000,
+};
+
+/**
+ * Report which provider keys are set and warn about unrecognized
+ * settings
+ * @param provider_env_vars Environment variables the providers need,
+ * from the provider manifest
+ */
+export const validate_config = (
+	provider_env_vars: readonly string[],
+) => {
+	const all_keys = provider_env_vars.map(
+		(name) => [name, process.env[name]] as const,
+	);
 
 	const available_keys = all_keys
 		.filter(([, value]) => value)
@@ -229,4 +583,46 @@ export const validate_config = () => {
 			`Missing API keys for: ${missing_keys.join(', ')}. Some providers will not be available.`,
 		);
 	}
+
+	if (
+		OMNISEARCH_FUSION_STRATEGY &&
+		!is_fusion_strategy(OMNISEARCH_FUSION_STRATEGY)
+	) {
+		console.warn(
+			`Unknown OMNISEARCH_FUSION_STRATEGY "${OMNISEARCH_FUSION_STRATEGY}", falling back to rrf.`,
+		);
+	}
+
+	const invalid_rates = Object.entries(
+		parse_provider_numbers(OMNISEARCH_RATE_LIMITS),
+	).filter(([, rate]) => rate <= 0);
+	if (invalid_rates.length > 0) {
+		console.warn(
+			`Ignoring non-positive OMNISEARCH_RATE_LIMITS entries: ${invalid_rates.map(([name, rate]) => `${name}:${rate}`).join(', ')}.`,
+		);
+	}
+
+	if (OMNISEARCH_TRACING && !tracing_config.exporter) {
+		console.warn(
+			`Unknown OMNISEARCH_TRACING "${OMNISEARCH_TRACING}", tracing stays off.`,
+		);
+	}
+
+	const unknown_rewrites = url_rewrite_entries.filter(
+		(rewrite) => !is_url_rewrite(rewrite),
+	);
+	if (unknown_rewrites.length > 0) {
+		console.warn(
+			`Ignoring unknown OMNISEARCH_URL_REWRITES entries: ${unknown_rewrites.join(', ')}.`,
+		);
+	}
+
+	if (
+		OMNISEARCH_SNIPPET_MODE &&
+		!is_snippet_mode(OMNISEARCH_SNIPPET_MODE)
+	) {
+		console.warn(
+			`Unknown OMNISEARCH_SNIPPET_MODE "${OMNISEARCH_SNIPPET_MODE}", falling back to merged.`,
+		);
+	}
 };
@@ -3,14 +3,26 @@
 import { ValibotJsonSchemaAdapter } from '@tmcp/adapter-valibot';
 import { HttpTransport } from '@tmcp/transport-http';
 import { StdioTransport } from '@tmcp/transport-stdio';
-import { McpServer } from 'tmcp';
 import { serve } from 'srvx';
-import type { GenericSchema } from 'valibot';
+import { get_readiness } from './common/health.js';
+import { logger, with_log_context } from './common/logger.js';
+import { render_metrics } from './common/metrics.js';
+import { setup_tracing } from './common/tracing.js';
 import { validate_config } from './config/env.js';
 import { initialize_providers } from './providers/index.js';
+import {
+	get_configured_providers,
+	PROVIDER_ENV_VARS,
+} from './providers/manifest.js';
+import { setup_cancellation } from './server/cancellation.js';
 import { setup_handlers } from './server/handlers.js';
+import { setup_request_logging } from './server/logging.js';
+import { setup_request_metrics } from './server/metrics.js';
+import { MiddlewareMcpServer } from './server/middleware.js';
+import { setup_request_tracing } from './server/tracing.js';
 import { register_tools } from './server/tools.js';
 
+import { randomUUID } from 'node:crypto';
 import { readFileSync } from 'node:fs';
 import { dirname, join } from 'node:path';
 import { fileURLToPath } from 'node:url';
@@ -23,12 +35,12 @@ const pkg = JSON.parse(
 const { name, version } = pkg;
 
 class OmnisearchServer {
-	private server: McpServer<GenericSchema>;
+	private server: MiddlewareMcpServer;
 
 	constructor() {
 		const adapter = new ValibotJsonSchemaAdapter();
 
-		this.server = new McpServer(
+		this.server = new MiddlewareMcpServer(
 			{
 				name,
 				version,
@@ -45,11 +57,20 @@ class OmnisearchServer {
 		);
 
 		// Validate environment configuration
-		validate_config();
+		validate_config(PROVIDER_ENV_VARS);
 
 		// Initialize and register providers
 		initialize_providers();
 
+		// Request middleware, outermost first. Logging sets the
+		// correlation id before tracing so request spans see it.
+		setup_request_metrics(this.server);
+		setup_request_logging(this.server);
+		// Trace requests and tool calls (no-op unless tracing is on)
+		setup_request_tracing(this.server);
+		// Abort tool calls the client cancels
+		setup_cancellation(this.server);
+
 		// Register tools and setup handlers
 		register_tools(this.server);
 		setup_handlers(this.server);
@@ -61,6 +82,8 @@ class OmnisearchServer {
 	}
 
 	async run() {
+		await setup_tracing(name, version);
+
 		const port = process.env.PORT
 			? parseInt(process.env.PORT, 10)
 			: undefined;
@@ -77,54 +100,64 @@ class OmnisearchServer {
 				async fetch(request) {
 					const start = performance.now();
 					const method = request.method;
-					const url = new URL(request.url);
-					const path = url.pathname;
-
-					let body_preview = '';
-					if (method === 'POST') {
-						const cloned = request.clone();
-						const raw = await cloned.text();
-						try {
-							const parsed = JSON.parse(raw);
-							const rpc_method = parsed.method ?? '?';
-							const tool_name = parsed.params?.name ?? '';
-							const query = parsed.params?.arguments?.query ?? '';
-							body_preview = tool_name
-								? `${rpc_method} → ${tool_name}${query ? `("${query.slice(0, 80)}")` : ''}`
-								: rpc_method;
-						} catch {
-							body_preview = raw.slice(0, 100);
-						}
+					const path = new URL(request.url).pathname;
+
+					// Prometheus scrapes and health checks are frequent, so
+					// they are not logged
+					if (path === '/metrics' && method === 'GET') {
+						return new Response(render_metrics(), {
+							headers: {
+								'Content-Type': 'text/plain; version=0.0.4',
+							},
+						});
 					}
-
-					console.error(
-						`→ ${method} ${path}${body_preview ? ` | ${body_preview}` : ''}`,
-					);
-
-					const response = await transport.respond(request);
-					const status = response?.status ?? 404;
-					const elapsed = (performance.now() - start).toFixed(0);
-
-					console.error(
-						`← ${status} ${elapsed}ms | ${method} ${path}${body_preview ? ` | ${body_preview}` : ''}`,
-					);
-
-					return (
-						response ?? new Response('Not found', { status: 404 })
-					);
+					if (path === '/healthz' && method === 'GET') {
+						return Response.json({ status: 'ok' });
+					}
+					if (path === '/readyz' && method === 'GET') {
+						const readiness = await get_readiness(
+							get_configured_providers(),
+						);
+						return Response.json(readiness, {
+							status: readiness.ready ? 200 : 503,
+						});
+					}
+					// Correlates every log line of this request; a caller may
+					// supply its own
+					const request_id =
+						request.headers.get('x-request-id') ?? randomUUID();
+
+					return with_log_context({ request_id }, async () => {
+						const response = await transport.respond(request);
+
+						logger.info('http request', {
+							method,
+							path,
+							status: response?.status ?? 404,
+							latency_ms: Math.round(performance.now() - start),
+						});
+
+						return (
+							response ?? new Response('Not found', { status: 404 })
+						);
+					});
 				},
 			});
 
-			console.error(
-				`Omnisearch MCP server running on http://0.0.0.0:${port}/mcp`,
-			);
+			logger.info('Omnisearch MCP server running', {
+				url: `http://0.0.0.0:${port}/mcp`,
+			});
 		} else {
 			const transport = new StdioTransport(this.server);
 			transport.listen();
-			console.error('Omnisearch MCP server running on stdio');
+			logger.info('Omnisearch MCP server running', {
+				transport: 'stdio',
+			});
 		}
 	}
 }
 
 const server = new OmnisearchServer();
-server.run().catch(console.error);
+server.run().catch((error) => {
+	logger.error('Failed to start server', { error });
+});
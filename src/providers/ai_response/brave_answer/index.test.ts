@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ErrorType } from '../../../common/types.js';
+import { BraveAnswerProvider } from './index.js';
+
+// Keys are read when the config module loads
+vi.hoisted(() => {
+	process.env.BRAVE_ANSWER_API_KEY = 'test';
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('brave_answer', () => {
+	const provider = new BraveAnswerProvider();
+
+	it('maps only upstream 5xx to PROVIDER_ERROR', async () => {
+		for (const [status, type] of [
+			[400, ErrorType.API_ERROR],
+			[404, ErrorType.API_ERROR],
+			[500, ErrorType.PROVIDER_ERROR],
+			[503, ErrorType.PROVIDER_ERROR],
+		] as const) {
+			vi.stubGlobal(
+				'fetch',
+				vi.fn(async () => new Response('nope', { status })),
+			);
+			await expect(
+				provider.search({ query: 'status' }),
+			).rejects.toMatchObject({ type });
+		}
+	});
+});
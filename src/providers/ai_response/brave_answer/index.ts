@@ -1,12 +1,17 @@
+import { with_provider_timeout } from '../../../common/latency.js';
+import { observe_upstream } from '../../../common/metrics.js';
 import {
 	BaseSearchParams,
 	ErrorType,
+	ProviderCapabilities,
 	ProviderError,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
 import {
 	handle_provider_error,
+	handle_rate_limit,
+	parse_rate_limit_reset,
 	validate_api_key,
 } from '../../../common/utils.js';
 import { config } from '../../../config/env.js';
@@ -34,8 +39,17 @@ export class BraveAnswerProvider implements SearchProvider {
 	description =
 		'AI-powered answers from Brave Search with inline citations and entity information. Uses real-time web search for grounded responses.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
 	private async consume_sse_stream(
 		response: Response,
+		signal?: AbortSignal,
 	): Promise<{ content: string; model: string }> {
 		const reader = response.body?.getReader();
 		if (!reader) {
@@ -70,20 +84,33 @@ export class BraveAnswerProvider implements SearchProvider {
 			}
 		};
 
-		while (true) {
-			const { done, value } = await reader.read();
-			if (done) break;
+		// Cancel the reader on abort so the stream's socket is released
+		const on_abort = () => {
+			reader.cancel(signal?.reason).catch(() => {});
+		};
+		signal?.addEventListener('abort', on_abort, { once: true });
 
-			buffer += decoder.decode(value, { stream: true });
+		try {
+			while (true) {
+				const { done, value } = await reader.read();
+				if (done) break;
 
-			const lines = buffer.split('\n');
-			// Keep the last potentially incomplete line in the buffer
-			buffer = lines.pop() || '';
+				buffer += decoder.decode(value, { stream: true });
 
-			for (const line of lines) {
-				process_line(line);
+				const lines = buffer.split('\n');
+				// Keep the last potentially incomplete line in the buffer
+				buffer = lines.pop() || '';
+
+				for (const line of lines) {
+					process_line(line);
+				}
 			}
+		} finally {
+			signal?.removeEventListener('abort', on_abort);
 		}
+		// A cancelled reader ends like a finished stream; don't return a
+		// partial answer as if it were complete
+		signal?.throwIfAborted();
 
 		// Process any remaining data in the buffer after stream ends
 		if (buffer.trim()) {
@@ -93,56 +120,77 @@ export class BraveAnswerProvider implements SearchProvider {
 		return { content: accumulated_content, model };
 	}
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.ai_response.brave_answer.api_key,
 			this.name,
 		);
 
 		try {
-			const response = await fetch(
-				`${config.ai_response.brave_answer.base_url}/chat/completions`,
-				{
-					method: 'POST',
-					headers: {
-						Accept: 'text/event-stream',
-						'Content-Type': 'application/json',
-						'x-subscription-token': api_key,
-					},
-					body: JSON.stringify({
-						model: 'brave',
-						messages: [
-							{
-								role: 'user',
-								content: params.query,
-							},
-						],
-						stream: true,
-						enable_entities: true,
-						enable_citations: true,
-						enable_research: false,
-					}),
-					signal: AbortSignal.timeout(
-						config.ai_response.brave_answer.timeout,
-					),
-				},
-			);
-
-			if (!response.ok) {
-				const error_text = await response.text();
-				throw new ProviderError(
-					response.status === 401
-						? ErrorType.API_ERROR
-						: response.status === 429
-							? ErrorType.RATE_LIMIT
-							: ErrorType.PROVIDER_ERROR,
-					`Brave Answer API error (${response.status}): ${error_text}`,
+			// Timing covers the whole stream, not just the response headers
+			const { content: raw_content, model } =
+				await with_provider_timeout(
 					this.name,
+					config.ai_response.brave_answer.timeout,
+					signal,
+					async (request_signal) => {
+						const url = `${config.ai_response.brave_answer.base_url}/chat/completions`;
+						const start = performance.now();
+						const response = await fetch(url, {
+							method: 'POST',
+							headers: {
+								Accept: 'text/event-stream',
+								'Content-Type': 'application/json',
+								'x-subscription-token': api_key,
+							},
+							body: JSON.stringify({
+								model: 'brave',
+								messages: [
+									{
+										role: 'user',
+										content: params.query,
+									},
+								],
+								stream: true,
+								enable_entities: true,
+								enable_citations: true,
+								enable_research: false,
+							}),
+							signal: request_signal,
+						}).catch((error) => {
+							observe_upstream(this.name, url, start, { error });
+							throw error;
+						});
+						observe_upstream(this.name, url, start, {
+							status: response.status,
+						});
+
+						// Reset headers let retries wait exactly as long as
+						// http_json does
+						if (response.status === 429) {
+							handle_rate_limit(
+								this.name,
+								parse_rate_limit_reset(response.headers),
+							);
+						}
+						if (!response.ok) {
+							const error_text = await response.text();
+							// Only upstream 5xx is transient, as in http_json
+							throw new ProviderError(
+								response.status >= 500
+									? ErrorType.PROVIDER_ERROR
+									: ErrorType.API_ERROR,
+								`Brave Answer API error (${response.status}): ${error_text}`,
+								this.name,
+							);
+						}
+
+						return this.consume_sse_stream(response, request_signal);
+					},
 				);
-			}
-
-			const { content: raw_content, model } =
-				await this.consume_sse_stream(response);
 
 			// Extract citations from XML-like tags in the accumulated content
 			const citations: BraveCitation[] = [];
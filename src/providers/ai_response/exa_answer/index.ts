@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -37,7 +38,18 @@ export class ExaAnswerProvider implements SearchProvider {
 	description =
 		'Get direct AI-generated answers to questions using Exa Answer API';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: true,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.ai_response.exa_answer.api_key,
 			this.name,
@@ -76,6 +88,8 @@ export class ExaAnswerProvider implements SearchProvider {
 						'Content-Type': 'application/json',
 					},
 					body: JSON.stringify(request_body),
+					signal,
+					timeout: config.ai_response.exa_answer.timeout,
 				},
 			);
 
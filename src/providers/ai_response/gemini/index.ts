@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -125,9 +126,18 @@ export class GeminiProvider implements SearchProvider {
 	description =
 		'Gemini 3 Flash with Google Search grounding. Returns AI-generated answer with full grounding metadata and citations.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'low',
+	};
+
 	async generate_content(
 		prompt: string,
 		options?: { system_prompt?: string },
+		signal?: AbortSignal,
 	): Promise<GeminiGenerateContentResult> {
 		const api_key = validate_api_key(
 			config.ai_response.gemini.api_key,
@@ -151,9 +161,8 @@ export class GeminiProvider implements SearchProvider {
 				method: 'POST',
 				headers: { 'Content-Type': 'application/json' },
 				body: JSON.stringify(body),
-				signal: AbortSignal.timeout(
-					config.ai_response.gemini.timeout,
-				),
+				signal,
+				timeout: config.ai_response.gemini.timeout,
 			},
 		);
 
@@ -164,12 +173,17 @@ export class GeminiProvider implements SearchProvider {
 		};
 	}
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		try {
 			const { answer: answer_text, candidate } =
-				await this.generate_content(params.query, {
-					system_prompt: SYSTEM_PROMPT,
-				});
+				await this.generate_content(
+					params.query,
+					{ system_prompt: SYSTEM_PROMPT },
+					signal,
+				);
 
 			if (!answer_text || answer_text === 'No response') {
 				return [
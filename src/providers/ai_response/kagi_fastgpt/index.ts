@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -37,8 +38,19 @@ export class KagiFastGPTProvider implements SearchProvider {
 	description =
 		'Quick AI-generated answers with citations, optimized for rapid response (900ms typical start time). Runs full search underneath for enriched answers.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
-		const response = await this.get_answer(params.query);
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
+		const response = await this.get_answer(params.query, {}, signal);
 
 		const results: SearchResult[] = [];
 
@@ -81,6 +93,7 @@ export class KagiFastGPTProvider implements SearchProvider {
 	async get_answer(
 		query: string,
 		options: KagiFastGPTOptions = {},
+		signal?: AbortSignal,
 	): Promise<KagiFastGPTResponse> {
 		const api_key = validate_api_key(
 			config.ai_response.kagi_fastgpt.api_key,
@@ -109,9 +122,8 @@ export class KagiFastGPTProvider implements SearchProvider {
 						cache: final_options.cache,
 						web_search: final_options.web_search,
 					}),
-					signal: AbortSignal.timeout(
-						config.ai_response.kagi_fastgpt.timeout,
-					),
+					signal,
+					timeout: config.ai_response.kagi_fastgpt.timeout,
 				},
 			);
 		} catch (error) {
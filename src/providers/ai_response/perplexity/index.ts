@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -57,11 +58,26 @@ export class PerplexityProvider implements SearchProvider {
 	description =
 		'AI-powered response generation combining real-time web search with advanced language models. Best for complex queries requiring reasoning and synthesis across multiple sources. Features contextual memory for follow-up questions.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
-		const response = await this.get_answer(params.query, {
-			include_sources: true,
-			max_tokens: params.limit || 1024,
-		});
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
+		const response = await this.get_answer(
+			params.query,
+			{
+				include_sources: true,
+				max_tokens: params.limit || 1024,
+			},
+			signal,
+		);
 
 		// Return the full answer as a single result
 		const results: SearchResult[] = [
@@ -104,6 +120,7 @@ export class PerplexityProvider implements SearchProvider {
 	async get_answer(
 		query: string,
 		options: PerplexityOptions = {},
+		signal?: AbortSignal,
 	): Promise<PerplexityResponse> {
 		const api_key = validate_api_key(
 			config.ai_response.perplexity.api_key,
@@ -144,9 +161,8 @@ export class PerplexityProvider implements SearchProvider {
 						temperature: 0.2,
 						max_tokens: 1024,
 					}),
-					signal: AbortSignal.timeout(
-						config.ai_response.perplexity.timeout,
-					),
+					signal,
+					timeout: config.ai_response.perplexity.timeout,
 				},
 			);
 
@@ -189,6 +205,7 @@ export class PerplexityProvider implements SearchProvider {
 		query: string,
 		context: string,
 		options: PerplexityOptions = {},
+		signal?: AbortSignal,
 	): Promise<PerplexityResponse> {
 		const api_key = validate_api_key(
 			config.ai_response.perplexity.api_key,
@@ -237,9 +254,8 @@ export class PerplexityProvider implements SearchProvider {
 						presence_penalty: final_options.presence_penalty,
 						frequency_penalty: final_options.frequency_penalty,
 					}),
-					signal: AbortSignal.timeout(
-						config.ai_response.perplexity.timeout,
-					),
+					signal,
+					timeout: config.ai_response.perplexity.timeout,
 				},
 			);
 			if (!data.choices?.[0]?.message?.content) {
@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -58,7 +59,18 @@ export class SerpApiAnswerProvider implements SearchProvider {
 	description =
 		"Google Gemini AI Overview via SerpAPI. Extracts Google's AI-generated answer with citations, falling back to answer box / knowledge graph. Includes organic result snippets as additional citations.";
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.ai_response.serpapi_answer.api_key,
 			this.name,
@@ -77,9 +89,8 @@ export class SerpApiAnswerProvider implements SearchProvider {
 				`${config.ai_response.serpapi_answer.base_url}?${query_params}`,
 				{
 					method: 'GET',
-					signal: AbortSignal.timeout(
-						config.ai_response.serpapi_answer.timeout,
-					),
+					signal,
+					timeout: config.ai_response.serpapi_answer.timeout,
 				},
 			);
 
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ErrorType } from '../../../common/types.js';
+import {
+	is_retryable_error,
+	retry_with_backoff,
+} from '../../../common/utils.js';
+import { TavilyAnswerProvider } from './index.js';
+
+// Keys are read when the config module loads
+vi.hoisted(() => {
+	process.env.TAVILY_API_KEY = 'test';
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('tavily_answer', () => {
+	it('fails without retrying when no answer comes back', async () => {
+		const fetch = vi.fn(async () =>
+			Response.json({ query: 'q', results: [], response_time: 1 }),
+		);
+		vi.stubGlobal('fetch', fetch);
+		const provider = new TavilyAnswerProvider();
+
+		const error = await retry_with_backoff(() =>
+			provider.search({ query: 'q' }),
+		).catch((error: unknown) => error);
+		expect(error).toMatchObject({ type: ErrorType.API_ERROR });
+		expect(is_retryable_error(error)).toBe(false);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+});
@@ -2,6 +2,7 @@ import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
 	ErrorType,
+	ProviderCapabilities,
 	ProviderError,
 	SearchProvider,
 	SearchResult,
@@ -30,7 +31,19 @@ export class TavilyAnswerProvider implements SearchProvider {
 	description =
 		'Tavily advanced search with synthesized AI answer. Returns a prose answer grounded in search results with citations. Uses search_depth=advanced and include_answer=advanced.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		max_results: 20,
+		returns_scores: true,
+		cost_tier: 'low',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.ai_response.tavily_answer.api_key,
 			this.name,
@@ -54,15 +67,14 @@ export class TavilyAnswerProvider implements SearchProvider {
 						chunks_per_source: 3,
 						topic: 'general',
 					}),
-					signal: AbortSignal.timeout(
-						config.ai_response.tavily_answer.timeout,
-					),
+					signal,
+					timeout: config.ai_response.tavily_answer.timeout,
 				},
 			);
 
 			if (!response.answer) {
 				throw new ProviderError(
-					ErrorType.PROVIDER_ERROR,
+					ErrorType.API_ERROR,
 					'No answer returned from Tavily advanced search',
 					this.name,
 				);
@@ -2,6 +2,7 @@ import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
 	ErrorType,
+	ProviderCapabilities,
 	ProviderError,
 	SearchProvider,
 	SearchResult,
@@ -30,7 +31,18 @@ export class YouSearchProvider implements SearchProvider {
 	description =
 		'You.com advanced AI search agent. Returns comprehensive synthesized prose answers with high verbosity. Best for detailed research questions.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.ai_response.you_search.api_key,
 			this.name,
@@ -55,9 +67,8 @@ export class YouSearchProvider implements SearchProvider {
 							max_workflow_steps: 1,
 						},
 					}),
-					signal: AbortSignal.timeout(
-						config.ai_response.you_search.timeout,
-					),
+					signal,
+					timeout: config.ai_response.you_search.timeout,
 				},
 			);
 
@@ -67,7 +78,7 @@ export class YouSearchProvider implements SearchProvider {
 
 			if (!answer_output?.text) {
 				throw new ProviderError(
-					ErrorType.PROVIDER_ERROR,
+					ErrorType.API_ERROR,
 					'No answer returned from You.com API',
 					this.name,
 				);
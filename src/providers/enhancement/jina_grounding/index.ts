@@ -3,6 +3,7 @@ import {
 	EnhancementProvider,
 	EnhancementResult,
 	ErrorType,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -35,7 +36,18 @@ export class JinaGroundingProvider implements EnhancementProvider {
 	description =
 		'Real-time fact verification against web knowledge. Reduces hallucinations and improves content integrity through statement verification.';
 
-	async enhance_content(content: string): Promise<EnhancementResult> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'low',
+	};
+
+	async enhance_content(
+		content: string,
+		signal?: AbortSignal,
+	): Promise<EnhancementResult> {
 		const api_key = validate_api_key(
 			config.enhancement.jina_grounding.api_key,
 			this.name,
@@ -53,9 +65,8 @@ export class JinaGroundingProvider implements EnhancementProvider {
 							Authorization: `Bearer ${api_key}`,
 						},
 						body: JSON.stringify({ statement: content }),
-						signal: AbortSignal.timeout(
-							config.enhancement.jina_grounding.timeout,
-						),
+						signal,
+						timeout: config.enhancement.jina_grounding.timeout,
 					},
 				);
 
@@ -109,6 +120,8 @@ export class JinaGroundingProvider implements EnhancementProvider {
 			}
 		};
 
-		return retry_with_backoff(ground_request);
+		return retry_with_backoff(ground_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
@@ -3,6 +3,7 @@ import {
 	EnhancementProvider,
 	EnhancementResult,
 	ErrorType,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -30,7 +31,18 @@ export class KagiEnrichmentProvider implements EnhancementProvider {
 	description =
 		'Provides supplementary content from specialized indexes (Teclis for web, TinyGem for news). Ideal for discovering non-mainstream results and enriching content with specialized knowledge.';
 
-	async enhance_content(content: string): Promise<EnhancementResult> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'low',
+	};
+
+	async enhance_content(
+		content: string,
+		signal?: AbortSignal,
+	): Promise<EnhancementResult> {
 		const api_key = validate_api_key(
 			config.enhancement.kagi_enrichment.api_key,
 			this.name,
@@ -54,9 +66,8 @@ export class KagiEnrichmentProvider implements EnhancementProvider {
 								Authorization: `Bot ${api_key}`,
 								Accept: 'application/json',
 							},
-							signal: AbortSignal.timeout(
-								config.enhancement.kagi_enrichment.timeout,
-							),
+							signal,
+							timeout: config.enhancement.kagi_enrichment.timeout,
 						},
 					),
 					http_json<EnrichmentResponse & { message?: string }>(
@@ -73,9 +84,8 @@ export class KagiEnrichmentProvider implements EnhancementProvider {
 								Authorization: `Bot ${api_key}`,
 								Accept: 'application/json',
 							},
-							signal: AbortSignal.timeout(
-								config.enhancement.kagi_enrichment.timeout,
-							),
+							signal,
+							timeout: config.enhancement.kagi_enrichment.timeout,
 						},
 					),
 				]);
@@ -138,6 +148,8 @@ export class KagiEnrichmentProvider implements EnhancementProvider {
 			}
 		};
 
-		return retry_with_backoff(enrich_request);
+		return retry_with_backoff(enrich_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
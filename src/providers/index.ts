@@ -1,15 +1,9 @@
-import { JinaGroundingProvider } from './enhancement/jina_grounding/index.js';
-import { KagiEnrichmentProvider } from './enhancement/kagi_enrichment/index.js';
-import { KagiSummarizerProvider } from './processing/kagi_summarizer/index.js';
-import { TavilyExtractProvider } from './processing/tavily_extract/index.js';
 import { UnifiedAISearchProvider } from './unified/ai_search.js';
 import { UnifiedExaProcessProvider } from './unified/exa_process.js';
 import { UnifiedFirecrawlProvider } from './unified/firecrawl_process.js';
 import { UnifiedGitHubSearchProvider } from './unified/github_search.js';
 import { UnifiedWebSearchProvider } from './unified/web_search.js';
 
-import { is_api_key_valid } from '../common/utils.js';
-import { config } from '../config/env.js';
 import {
 	available_providers,
 	register_ai_search_provider,
@@ -20,149 +14,50 @@ import {
 	register_processing_provider,
 	register_web_search_provider,
 } from '../server/tools.js';
+import {
+	get_standalone_entries,
+	get_unified_entries,
+	is_provider_configured,
+	type UnifiedProvider,
+} from './manifest.js';
 
-export const initialize_providers = () => {
-	// Check if we have at least one web search provider API key
-	const has_web_search =
-		is_api_key_valid(config.search.tavily.api_key, 'tavily') ||
-		is_api_key_valid(config.search.brave.api_key, 'brave') ||
-		is_api_key_valid(config.search.kagi.api_key, 'kagi') ||
-		is_api_key_valid(config.search.exa.api_key, 'exa') ||
-		is_api_key_valid(config.search.firecrawl.api_key, 'firecrawl') ||
-		is_api_key_valid(
-			config.search.perplexity.api_key,
-			'perplexity',
-		) ||
-		is_api_key_valid(config.search.serpapi.api_key, 'serpapi') ||
-		is_api_key_valid(config.search.linkup.api_key, 'linkup');
+// A unified tool is registered when any provider behind it has a key
+const has_configured = (unified: UnifiedProvider) =>
+	get_unified_entries(unified).some(is_provider_configured);
 
-	if (has_web_search) {
+export const initialize_providers = () => {
+	if (has_configured('web_search')) {
 		register_web_search_provider(new UnifiedWebSearchProvider());
 	}
 
-	// Check if we have GitHub API key
-	if (is_api_key_valid(config.search.github.api_key, 'github')) {
+	if (has_configured('github_search')) {
 		register_github_search_provider(
 			new UnifiedGitHubSearchProvider(),
 		);
 	}
 
-	// Check if we have at least one AI search provider API key
-	const has_ai_search =
-		is_api_key_valid(
-			config.ai_response.perplexity.api_key,
-			'perplexity',
-		) ||
-		is_api_key_valid(
-			config.ai_response.kagi_fastgpt.api_key,
-			'kagi_fastgpt',
-		) ||
-		is_api_key_valid(
-			config.ai_response.exa_answer.api_key,
-			'exa_answer',
-		) ||
-		is_api_key_valid(
-			config.ai_response.brave_answer.api_key,
-			'brave_answer',
-		) ||
-		is_api_key_valid(
-			config.ai_response.tavily_answer.api_key,
-			'tavily_answer',
-		) ||
-		is_api_key_valid(
-			config.ai_response.you_search.api_key,
-			'you_search',
-		) ||
-		is_api_key_valid(
-			config.ai_response.serpapi_answer.api_key,
-			'serpapi_answer',
-		) ||
-		is_api_key_valid(config.ai_response.gemini.api_key, 'gemini');
-
-	if (has_ai_search) {
+	if (has_configured('ai_search')) {
 		register_ai_search_provider(new UnifiedAISearchProvider());
 	}
 
-	// Check if we have at least one Firecrawl API key
-	const has_firecrawl =
-		is_api_key_valid(
-			config.processing.firecrawl_scrape.api_key,
-			'firecrawl_scrape',
-		) ||
-		is_api_key_valid(
-			config.processing.firecrawl_crawl.api_key,
-			'firecrawl_crawl',
-		) ||
-		is_api_key_valid(
-			config.processing.firecrawl_map.api_key,
-			'firecrawl_map',
-		) ||
-		is_api_key_valid(
-			config.processing.firecrawl_extract.api_key,
-			'firecrawl_extract',
-		) ||
-		is_api_key_valid(
-			config.processing.firecrawl_actions.api_key,
-			'firecrawl_actions',
-		);
-
-	if (has_firecrawl) {
+	if (has_configured('firecrawl_process')) {
 		register_firecrawl_process_provider(
 			new UnifiedFirecrawlProvider(),
 		);
 	}
 
-	// Check if we have at least one Exa processing API key
-	const has_exa_process =
-		is_api_key_valid(
-			config.processing.exa_contents.api_key,
-			'exa_contents',
-		) ||
-		is_api_key_valid(
-			config.processing.exa_similar.api_key,
-			'exa_similar',
-		);
-
-	if (has_exa_process) {
+	if (has_configured('exa_process')) {
 		register_exa_process_provider(new UnifiedExaProcessProvider());
 	}
 
-	// Initialize remaining processing providers
-	if (
-		is_api_key_valid(
-			config.processing.kagi_summarizer.api_key,
-			'kagi_summarizer',
-		)
-	) {
-		register_processing_provider(new KagiSummarizerProvider());
-	}
-
-	if (
-		is_api_key_valid(
-			config.processing.tavily_extract.api_key,
-			'tavily_extract',
-		)
-	) {
-		register_processing_provider(new TavilyExtractProvider());
-	}
-
-	// Initialize enhancement providers
-	if (
-		is_api_key_valid(
-			config.enhancement.jina_grounding.api_key,
-			'jina_grounding',
-		)
-	) {
-		register_enhancement_provider(new JinaGroundingProvider());
-	}
-
-	if (
-		is_api_key_valid(
-			config.enhancement.kagi_enrichment.api_key,
-			'kagi_enrichment',
-		)
-	) {
-		register_enhancement_provider(new KagiEnrichmentProvider());
+	// Remaining processing and enhancement providers get a tool each
+	for (const entry of get_standalone_entries()) {
+		if (!is_provider_configured(entry)) continue;
+		if (entry.category === 'enhancement') {
+			register_enhancement_provider(entry.create());
+		} else {
+			register_processing_provider(entry.create());
+		}
 	}
 
 	// Log available providers
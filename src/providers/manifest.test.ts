@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { validate_config } from '../config/env.js';
+import {
+	get_unified_entries,
+	PROVIDER_ENV_VARS,
+} from './manifest.js';
+
+afterEach(() => {
+	vi.unstubAllEnvs();
+	vi.restoreAllMocks();
+});
+
+describe('PROVIDER_ENV_VARS', () => {
+	it('lists every provider key once', () => {
+		expect([...PROVIDER_ENV_VARS].sort()).toEqual([
+			'BRAVE_ANSWER_API_KEY',
+			'BRAVE_API_KEY',
+			'EXA_API_KEY',
+			'FIRECRAWL_API_KEY',
+			'GEMINI_API_KEY',
+			'GITHUB_API_KEY',
+			'JINA_AI_API_KEY',
+			'KAGI_API_KEY',
+			'LINKUP_API_KEY',
+			'PERPLEXITY_API_KEY',
+			'SERPAPI_API_KEY',
+			'TAVILY_API_KEY',
+			'YOU_API_KEY',
+		]);
+	});
+});
+
+describe('validate_config', () => {
+	it('reports the manifest keys that are set and missing', () => {
+		for (const name of PROVIDER_ENV_VARS) vi.stubEnv(name, '');
+		vi.stubEnv('TAVILY_API_KEY', 'test');
+		vi.stubEnv('KAGI_API_KEY', 'test');
+		const error = vi
+			.spyOn(console, 'error')
+			.mockImplementation(() => {});
+		const warn = vi
+			.spyOn(console, 'warn')
+			.mockImplementation(() => {});
+
+		validate_config(PROVIDER_ENV_VARS);
+
+		expect(error).toHaveBeenCalledWith(
+			'Found API keys for: TAVILY_API_KEY, KAGI_API_KEY',
+		);
+		const missing = String(warn.mock.calls[0][0]);
+		expect(missing).toMatch(/^Missing API keys for: /);
+		expect(missing).toContain('BRAVE_ANSWER_API_KEY');
+		expect(missing).not.toContain('TAVILY_API_KEY');
+	});
+});
+
+describe('get_unified_entries', () => {
+	it('lists the providers behind a unified tool in manifest order', () => {
+		expect(
+			get_unified_entries('web_search').map((entry) => entry.name),
+		).toEqual([
+			'tavily',
+			'brave',
+			'kagi',
+			'exa',
+			'firecrawl',
+			'perplexity',
+			'serpapi',
+			'linkup',
+		]);
+		expect(
+			get_unified_entries('ai_search').every(
+				(entry) => entry.category === 'ai_response',
+			),
+		).toBe(true);
+	});
+});
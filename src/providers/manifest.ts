@@ -0,0 +1,372 @@
+// Provider manifest: the one list of providers. The unified tools,
+// web_search/answer fan-out, tool schemas, provider status and config
+// validation are all derived from it, so adding a provider means adding
+// its class and an entry here.
+
+import { BraveAnswerProvider } from './ai_response/brave_answer/index.js';
+import { ExaAnswerProvider } from './ai_response/exa_answer/index.js';
+import { GeminiProvider } from './ai_response/gemini/index.js';
+import { KagiFastGPTProvider } from './ai_response/kagi_fastgpt/index.js';
+import { PerplexityProvider } from './ai_response/perplexity/index.js';
+import { SerpApiAnswerProvider } from './ai_response/serpapi_answer/index.js';
+import { TavilyAnswerProvider } from './ai_response/tavily_answer/index.js';
+import { YouSearchProvider } from './ai_response/you_search/index.js';
+import { JinaGroundingProvider } from './enhancement/jina_grounding/index.js';
+import { KagiEnrichmentProvider } from './enhancement/kagi_enrichment/index.js';
+import { ExaContentsProvider } from './processing/exa_contents/index.js';
+import { ExaSimilarProvider } from './processing/exa_similar/index.js';
+import { FirecrawlActionsProvider } from './processing/firecrawl_actions/index.js';
+import { FirecrawlCrawlProvider } from './processing/firecrawl_crawl/index.js';
+import { FirecrawlExtractProvider } from './processing/firecrawl_extract/index.js';
+import { FirecrawlMapProvider } from './processing/firecrawl_map/index.js';
+import { FirecrawlScrapeProvider } from './processing/firecrawl_scrape/index.js';
+import { JinaReaderProvider } from './processing/jina_reader/index.js';
+import { KagiSummarizerProvider } from './processing/kagi_summarizer/index.js';
+import { TavilyExtractProvider } from './processing/tavily_extract/index.js';
+import { BraveSearchProvider } from './search/brave/index.js';
+import { ExaSearchProvider } from './search/exa/index.js';
+import { FirecrawlSearchProvider } from './search/firecrawl/index.js';
+import { GitHubSearchProvider } from './search/github/index.js';
+import { KagiSearchProvider } from './search/kagi/index.js';
+import { LinkupSearchProvider } from './search/linkup/index.js';
+import { PerplexitySearchProvider } from './search/perplexity/index.js';
+import { SerpApiSearchProvider } from './search/serpapi/index.js';
+import { TavilySearchProvider } from './search/tavily/index.js';
+
+import type { ConfiguredProvider } from '../common/health.js';
+import type {
+	EnhancementProvider,
+	ProcessingProvider,
+	SearchProvider,
+} from '../common/types.js';
+import { config } from '../config/env.js';
+
+export type ProviderCategory =
+	| 'search'
+	| 'ai_response'
+	| 'processing'
+	| 'enhancement';
+
+// Tools that dispatch to, or fan out over, several providers
+export type UnifiedProvider =
+	| 'web_search'
+	| 'github_search'
+	| 'ai_search'
+	| 'firecrawl_process'
+	| 'exa_process';
+
+export interface ProviderConfig {
+	api_key?: string;
+	base_url: string;
+	timeout: number;
+}
+
+export interface ProviderManifestEntry {
+	name: string;
+	category: ProviderCategory;
+	// Unset for providers served as a tool of their own
+	unified?: UnifiedProvider;
+	// Selects the provider within a mode-based unified tool
+	mode?: string;
+	// Environment variables the provider needs
+	env: readonly string[];
+	config: ProviderConfig;
+	create: () =>
+		| SearchProvider
+		| ProcessingProvider
+		| EnhancementProvider;
+}
+
+export const PROVIDER_MANIFEST = [
+	{
+		name: 'tavily',
+		category: 'search',
+		unified: 'web_search',
+		env: ['TAVILY_API_KEY'],
+		config: config.search.tavily,
+		create: () => new TavilySearchProvider(),
+	},
+	{
+		name: 'brave',
+		category: 'search',
+		unified: 'web_search',
+		env: ['BRAVE_API_KEY'],
+		config: config.search.brave,
+		create: () => new BraveSearchProvider(),
+	},
+	{
+		name: 'kagi',
+		category: 'search',
+		unified: 'web_search',
+		env: ['KAGI_API_KEY'],
+		config: config.search.kagi,
+		create: () => new KagiSearchProvider(),
+	},
+	{
+		name: 'exa',
+		category: 'search',
+		unified: 'web_search',
+		env: ['EXA_API_KEY'],
+		config: config.search.exa,
+		create: () => new ExaSearchProvider(),
+	},
+	{
+		name: 'firecrawl',
+		category: 'search',
+		unified: 'web_search',
+		env: ['FIRECRAWL_API_KEY'],
+		config: config.search.firecrawl,
+		create: () => new FirecrawlSearchProvider(),
+	},
+	{
+		name: 'perplexity',
+		category: 'search',
+		unified: 'web_search',
+		env: ['PERPLEXITY_API_KEY'],
+		config: config.search.perplexity,
+		create: () => new PerplexitySearchProvider(),
+	},
+	{
+		name: 'serpapi',
+		category: 'search',
+		unified: 'web_search',
+		env: ['SERPAPI_API_KEY'],
+		config: config.search.serpapi,
+		create: () => new SerpApiSearchProvider(),
+	},
+	{
+		name: 'linkup',
+		category: 'search',
+		unified: 'web_search',
+		env: ['LINKUP_API_KEY'],
+		config: config.search.linkup,
+		create: () => new LinkupSearchProvider(),
+	},
+	{
+		name: 'github',
+		category: 'search',
+		unified: 'github_search',
+		env: ['GITHUB_API_KEY'],
+		config: config.search.github,
+		create: () => new GitHubSearchProvider(),
+	},
+	{
+		name: 'perplexity',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['PERPLEXITY_API_KEY'],
+		config: config.ai_response.perplexity,
+		create: () => new PerplexityProvider(),
+	},
+	{
+		name: 'kagi_fastgpt',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['KAGI_API_KEY'],
+		config: config.ai_response.kagi_fastgpt,
+		create: () => new KagiFastGPTProvider(),
+	},
+	{
+		name: 'exa_answer',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['EXA_API_KEY'],
+		config: config.ai_response.exa_answer,
+		create: () => new ExaAnswerProvider(),
+	},
+	{
+		name: 'brave_answer',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['BRAVE_ANSWER_API_KEY'],
+		config: config.ai_response.brave_answer,
+		create: () => new BraveAnswerProvider(),
+	},
+	{
+		name: 'tavily_answer',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['TAVILY_API_KEY'],
+		config: config.ai_response.tavily_answer,
+		create: () => new TavilyAnswerProvider(),
+	},
+	{
+		name: 'you_search',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['YOU_API_KEY'],
+		config: config.ai_response.you_search,
+		create: () => new YouSearchProvider(),
+	},
+	{
+		name: 'serpapi_answer',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['SERPAPI_API_KEY'],
+		config: config.ai_response.serpapi_answer,
+		create: () => new SerpApiAnswerProvider(),
+	},
+	{
+		name: 'gemini',
+		category: 'ai_response',
+		unified: 'ai_search',
+		env: ['GEMINI_API_KEY'],
+		config: config.ai_response.gemini,
+		create: () => new GeminiProvider(),
+	},
+	{
+		name: 'firecrawl_scrape',
+		category: 'processing',
+		unified: 'firecrawl_process',
+		mode: 'scrape',
+		env: ['FIRECRAWL_API_KEY'],
+		config: config.processing.firecrawl_scrape,
+		create: () => new FirecrawlScrapeProvider(),
+	},
+	{
+		name: 'firecrawl_crawl',
+		category: 'processing',
+		unified: 'firecrawl_process',
+		mode: 'crawl',
+		env: ['FIRECRAWL_API_KEY'],
+		config: config.processing.firecrawl_crawl,
+		create: () => new FirecrawlCrawlProvider(),
+	},
+	{
+		name: 'firecrawl_map',
+		category: 'processing',
+		unified: 'firecrawl_process',
+		mode: 'map',
+		env: ['FIRECRAWL_API_KEY'],
+		config: config.processing.firecrawl_map,
+		create: () => new FirecrawlMapProvider(),
+	},
+	{
+		name: 'firecrawl_extract',
+		category: 'processing',
+		unified: 'firecrawl_process',
+		mode: 'extract',
+		env: ['FIRECRAWL_API_KEY'],
+		config: config.processing.firecrawl_extract,
+		create: () => new FirecrawlExtractProvider(),
+	},
+	{
+		name: 'firecrawl_actions',
+		category: 'processing',
+		unified: 'firecrawl_process',
+		mode: 'actions',
+		env: ['FIRECRAWL_API_KEY'],
+		config: config.processing.firecrawl_actions,
+		create: () => new FirecrawlActionsProvider(),
+	},
+	{
+		name: 'exa_contents',
+		category: 'processing',
+		unified: 'exa_process',
+		mode: 'contents',
+		env: ['EXA_API_KEY'],
+		config: config.processing.exa_contents,
+		create: () => new ExaContentsProvider(),
+	},
+	{
+		name: 'exa_similar',
+		category: 'processing',
+		unified: 'exa_process',
+		mode: 'similar',
+		env: ['EXA_API_KEY'],
+		config: config.processing.exa_similar,
+		create: () => new ExaSimilarProvider(),
+	},
+	{
+		name: 'jina_reader',
+		category: 'processing',
+		env: ['JINA_AI_API_KEY'],
+		config: config.processing.jina_reader,
+		create: () => new JinaReaderProvider(),
+	},
+	{
+		name: 'kagi_summarizer',
+		category: 'processing',
+		env: ['KAGI_API_KEY'],
+		config: config.processing.kagi_summarizer,
+		create: () => new KagiSummarizerProvider(),
+	},
+	{
+		name: 'tavily_extract',
+		category: 'processing',
+		env: ['TAVILY_API_KEY'],
+		config: config.processing.tavily_extract,
+		create: () => new TavilyExtractProvider(),
+	},
+	{
+		name: 'jina_grounding',
+		category: 'enhancement',
+		env: ['JINA_AI_API_KEY'],
+		config: config.enhancement.jina_grounding,
+		create: () => new JinaGroundingProvider(),
+	},
+	{
+		name: 'kagi_enrichment',
+		category: 'enhancement',
+		env: ['KAGI_API_KEY'],
+		config: config.enhancement.kagi_enrichment,
+		create: () => new KagiEnrichmentProvider(),
+	},
+] as const satisfies readonly ProviderManifestEntry[];
+
+type ManifestEntry = (typeof PROVIDER_MANIFEST)[number];
+
+export type UnifiedProviderEntry<U extends UnifiedProvider> = Extract<
+	ManifestEntry,
+	{ unified: U }
+>;
+
+/**
+ * Get the providers behind a unified tool, in manifest order
+ * @param unified The unified tool
+ * @returns Its manifest entries
+ */
+export const get_unified_entries = <U extends UnifiedProvider>(
+	unified: U,
+): UnifiedProviderEntry<U>[] =>
+	PROVIDER_MANIFEST.filter(
+		(entry): entry is UnifiedProviderEntry<U> =>
+			'unified' in entry && entry.unified === unified,
+	);
+
+/**
+ * Get the providers served as a tool of their own
+ * @returns Their manifest entries
+ */
+export const get_standalone_entries = () =>
+	PROVIDER_MANIFEST.filter(
+		(entry): entry is Exclude<ManifestEntry, { unified: string }> =>
+			!('unified' in entry),
+	);
+
+/**
+ * Check whether a provider has its API key set, without logging
+ * @param entry The provider's manifest entry
+ * @returns True when the key is non-empty
+ */
+export const is_provider_configured = (
+	entry: ProviderManifestEntry,
+): boolean => Boolean(entry.config.api_key?.trim());
+
+/**
+ * List the sub-providers that have an API key configured
+ * @returns Configured providers with their category and base URL
+ */
+export const get_configured_providers = (): ConfiguredProvider[] =>
+	PROVIDER_MANIFEST.filter(is_provider_configured).map(
+		({ category, name, config }) => ({
+			category,
+			name,
+			base_url: config.base_url,
+		}),
+	);
+
+// Every environment variable some provider needs, once each
+export const PROVIDER_ENV_VARS = [
+	...new Set(PROVIDER_MANIFEST.flatMap((entry) => entry.env)),
+];
@@ -3,6 +3,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -42,9 +43,18 @@ export class ExaContentsProvider implements ProcessingProvider {
 	name = 'exa_contents';
 	description = 'Extract full content from Exa search result IDs';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
 	async process_content(
 		idsOrUrls: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		const api_key = validate_api_key(
 			config.processing.exa_contents.api_key,
@@ -94,6 +104,8 @@ export class ExaContentsProvider implements ProcessingProvider {
 							'Content-Type': 'application/json',
 						},
 						body: JSON.stringify(request_body),
+						signal,
+						timeout: config.processing.exa_contents.timeout,
 					},
 				);
 
@@ -161,6 +173,8 @@ export class ExaContentsProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(process_request);
+		return retry_with_backoff(process_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
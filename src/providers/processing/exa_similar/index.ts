@@ -3,6 +3,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -48,9 +49,19 @@ export class ExaSimilarProvider implements ProcessingProvider {
 	description =
 		'Find web pages semantically similar to a given URL using Exa';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		max_results: 15,
+		returns_scores: true,
+		cost_tier: 'medium',
+	};
+
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		const api_key = validate_api_key(
 			config.processing.exa_similar.api_key,
@@ -99,6 +110,8 @@ export class ExaSimilarProvider implements ProcessingProvider {
 							'Content-Type': 'application/json',
 						},
 						body: JSON.stringify(request_body),
+						signal,
+						timeout: config.processing.exa_similar.timeout,
 					},
 				);
 
@@ -179,6 +192,8 @@ export class ExaSimilarProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(process_request);
+		return retry_with_backoff(process_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
@@ -7,6 +7,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -57,9 +58,18 @@ export class FirecrawlActionsProvider implements ProcessingProvider {
 	description =
 		'Support for page interactions (clicking, scrolling, etc.) before extraction for dynamic content using Firecrawl. Enables extraction from JavaScript-heavy sites, single-page applications, and content behind user interactions. Best for accessing content that requires navigation, form filling, or other interactions.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		// Actions works with a single URL
 		const urls = validate_firecrawl_urls(url, this.name);
@@ -146,6 +156,7 @@ export class FirecrawlActionsProvider implements ProcessingProvider {
 							}),
 						},
 						config.processing.firecrawl_actions.timeout,
+						signal,
 					);
 
 				validate_firecrawl_response(
@@ -157,7 +168,7 @@ export class FirecrawlActionsProvider implements ProcessingProvider {
 				// Check if we have data
 				if (!actions_data.data) {
 					throw new ProviderError(
-						ErrorType.PROVIDER_ERROR,
+						ErrorType.API_ERROR,
 						'No data returned from API',
 						this.name,
 					);
@@ -170,7 +181,7 @@ export class FirecrawlActionsProvider implements ProcessingProvider {
 					!actions_data.data.rawHtml
 				) {
 					throw new ProviderError(
-						ErrorType.PROVIDER_ERROR,
+						ErrorType.API_ERROR,
 						'No content extracted after performing actions',
 						this.name,
 					);
@@ -239,6 +250,8 @@ export class FirecrawlActionsProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(actions_request);
+		return retry_with_backoff(actions_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
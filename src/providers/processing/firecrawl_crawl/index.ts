@@ -8,6 +8,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -53,9 +54,19 @@ export class FirecrawlCrawlProvider implements ProcessingProvider {
 	description =
 		'Deep crawling of all accessible subpages on a website with configurable depth limits using Firecrawl. Efficiently discovers and extracts content from multiple pages within a domain. Best for comprehensive site analysis, content indexing, and data collection from entire websites.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		max_results: 50,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		// Crawl only works with a single URL (the starting point)
 		const urls = validate_firecrawl_urls(url, this.name);
@@ -68,28 +79,37 @@ export class FirecrawlCrawlProvider implements ProcessingProvider {
 			);
 
 			try {
-				// Start the crawl
-				const crawl_data =
-					await make_firecrawl_request<FirecrawlCrawlResponse>(
-						this.name,
-						config.processing.firecrawl_crawl.base_url,
-						api_key,
-						{
-							url: crawl_url,
-							scrapeOptions: {
-								formats: ['markdown'],
-								onlyMainContent: true,
-							},
-							maxDepth: extract_depth === 'advanced' ? 3 : 1,
-							limit: extract_depth === 'advanced' ? 50 : 20,
-						},
-						config.processing.firecrawl_crawl.timeout,
-					);
-
-				validate_firecrawl_response(
-					crawl_data,
-					this.name,
-					'Error starting crawl',
+				// Start the crawl. Only this request is retried: retrying the
+				// polling below would start a new job from scratch each time.
+				const crawl_data = await retry_with_backoff(
+					async () => {
+						const data =
+							await make_firecrawl_request<FirecrawlCrawlResponse>(
+								this.name,
+								config.processing.firecrawl_crawl.base_url,
+								api_key,
+								{
+									url: crawl_url,
+									scrapeOptions: {
+										formats: ['markdown'],
+										onlyMainContent: true,
+									},
+									maxDepth: extract_depth === 'advanced' ? 3 : 1,
+									limit: extract_depth === 'advanced' ? 50 : 20,
+								},
+								config.processing.firecrawl_crawl.timeout,
+								signal,
+							);
+						validate_firecrawl_response(
+							data,
+							this.name,
+							'Error starting crawl',
+						);
+						return data;
+					},
+					undefined,
+					undefined,
+					{ signal },
 				);
 
 				// Poll for crawl completion
@@ -100,13 +120,14 @@ export class FirecrawlCrawlProvider implements ProcessingProvider {
 						api_key,
 						max_attempts: 20,
 						poll_interval: 5000,
-						timeout: 30000,
+						timeout: config.processing.firecrawl_crawl.timeout,
+						signal,
 					});
 
 				// Verify we have data
 				if (!status_data.data || status_data.data.length === 0) {
 					throw new ProviderError(
-						ErrorType.PROVIDER_ERROR,
+						ErrorType.API_ERROR,
 						'Crawl returned no data',
 						this.name,
 					);
@@ -121,7 +142,7 @@ export class FirecrawlCrawlProvider implements ProcessingProvider {
 
 				if (successful_pages.length === 0) {
 					throw new ProviderError(
-						ErrorType.PROVIDER_ERROR,
+						ErrorType.API_ERROR,
 						'All crawled pages failed to extract content',
 						this.name,
 					);
@@ -173,6 +194,6 @@ export class FirecrawlCrawlProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(crawl_request);
+		return crawl_request();
 	}
 }
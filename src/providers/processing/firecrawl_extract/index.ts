@@ -8,6 +8,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -36,9 +37,18 @@ export class FirecrawlExtractProvider implements ProcessingProvider {
 	description =
 		'Structured data extraction with AI using natural language prompts via Firecrawl. Extracts specific information from web pages based on custom extraction instructions. Best for targeted data collection, information extraction, and converting unstructured web content into structured data.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		// Extract works with a single URL at a time
 		const urls = validate_firecrawl_urls(url, this.name);
@@ -57,29 +67,39 @@ export class FirecrawlExtractProvider implements ProcessingProvider {
 						? 'Extract all relevant information from this page including: title, author, date published, main content, categories or tags, related links, and any structured data like product information, pricing, or specifications. Format the data in a well-structured way.'
 						: 'Extract the main content, title, and author from this page. Summarize the key information.';
 
-				// Start the extraction
-				const extract_data =
-					await make_firecrawl_request<FirecrawlExtractResponse>(
-						this.name,
-						config.processing.firecrawl_extract.base_url,
-						api_key,
-						{
-							urls: [extract_url],
-							prompt: extraction_prompt,
-							showSources: true,
-							scrapeOptions: {
-								formats: ['markdown'],
-								onlyMainContent: true,
-								waitFor: extract_depth === 'advanced' ? 5000 : 2000,
-							},
-						},
-						config.processing.firecrawl_extract.timeout,
-					);
-
-				validate_firecrawl_response(
-					extract_data,
-					this.name,
-					'Error starting extraction',
+				// Start the extraction. Only this request is retried: retrying the
+				// polling below would start a new job from scratch each time.
+				const extract_data = await retry_with_backoff(
+					async () => {
+						const data =
+							await make_firecrawl_request<FirecrawlExtractResponse>(
+								this.name,
+								config.processing.firecrawl_extract.base_url,
+								api_key,
+								{
+									urls: [extract_url],
+									prompt: extraction_prompt,
+									showSources: true,
+									scrapeOptions: {
+										formats: ['markdown'],
+										onlyMainContent: true,
+										waitFor:
+											extract_depth === 'advanced' ? 5000 : 2000,
+									},
+								},
+								config.processing.firecrawl_extract.timeout,
+								signal,
+							);
+						validate_firecrawl_response(
+							data,
+							this.name,
+							'Error starting extraction',
+						);
+						return data;
+					},
+					undefined,
+					undefined,
+					{ signal },
 				);
 
 				// Poll for extraction completion
@@ -90,13 +110,14 @@ export class FirecrawlExtractProvider implements ProcessingProvider {
 						api_key,
 						max_attempts: 15,
 						poll_interval: 3000,
-						timeout: 30000,
+						timeout: config.processing.firecrawl_extract.timeout,
+						signal,
 					});
 
 				// Verify we have data
 				if (!status_data.data) {
 					throw new ProviderError(
-						ErrorType.PROVIDER_ERROR,
+						ErrorType.API_ERROR,
 						'No data extracted from URL',
 						this.name,
 					);
@@ -169,6 +190,6 @@ export class FirecrawlExtractProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(extract_request);
+		return extract_request();
 	}
 }
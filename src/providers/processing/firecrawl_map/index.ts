@@ -7,6 +7,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -27,9 +28,19 @@ export class FirecrawlMapProvider implements ProcessingProvider {
 	description =
 		'Fast URL collection from websites for comprehensive site mapping using Firecrawl. Efficiently discovers all accessible URLs within a domain without extracting content. Best for site auditing, URL discovery, and preparing for targeted content extraction.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		max_results: 200,
+		returns_scores: false,
+		cost_tier: 'low',
+	};
+
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		// Map only works with a single URL (the starting point)
 		const urls = validate_firecrawl_urls(url, this.name);
@@ -55,6 +66,7 @@ export class FirecrawlMapProvider implements ProcessingProvider {
 							includeSubdomains: false,
 						},
 						config.processing.firecrawl_map.timeout,
+						signal,
 					);
 
 				validate_firecrawl_response(
@@ -66,7 +78,7 @@ export class FirecrawlMapProvider implements ProcessingProvider {
 				// Check if we have links
 				if (!map_data.links || map_data.links.length === 0) {
 					throw new ProviderError(
-						ErrorType.PROVIDER_ERROR,
+						ErrorType.API_ERROR,
 						'No URLs discovered during mapping',
 						this.name,
 					);
@@ -103,6 +115,8 @@ export class FirecrawlMapProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(map_request);
+		return retry_with_backoff(map_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
@@ -5,10 +5,12 @@ import {
 	validate_firecrawl_urls,
 	type ProcessedUrlResult,
 } from '../../../common/firecrawl_utils.js';
+import { logger } from '../../../common/logger.js';
 import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -46,9 +48,18 @@ export class FirecrawlScrapeProvider implements ProcessingProvider {
 	description =
 		'Extract clean, LLM-ready data from single URLs with enhanced formatting options using Firecrawl. Efficiently converts web content into markdown, plain text, or structured data with configurable extraction options. Best for content analysis, data collection, and AI training data preparation.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		const urls = validate_firecrawl_urls(url, this.name);
 
@@ -76,6 +87,7 @@ export class FirecrawlScrapeProvider implements ProcessingProvider {
 											extract_depth === 'advanced' ? 5000 : 2000,
 									},
 									config.processing.firecrawl_scrape.timeout,
+									signal,
 								);
 
 							validate_firecrawl_response(
@@ -87,7 +99,7 @@ export class FirecrawlScrapeProvider implements ProcessingProvider {
 							// Check if we have data
 							if (!data.data) {
 								throw new ProviderError(
-									ErrorType.PROVIDER_ERROR,
+									ErrorType.API_ERROR,
 									'No data returned from API',
 									this.name,
 								);
@@ -100,7 +112,7 @@ export class FirecrawlScrapeProvider implements ProcessingProvider {
 								!data.data.rawHtml
 							) {
 								throw new ProviderError(
-									ErrorType.PROVIDER_ERROR,
+									ErrorType.API_ERROR,
 									'No content extracted from URL',
 									this.name,
 								);
@@ -121,7 +133,11 @@ export class FirecrawlScrapeProvider implements ProcessingProvider {
 							};
 						} catch (error) {
 							// Log the error but continue processing other URLs
-							console.error(`Error processing ${single_url}:`, error);
+							logger.warn('Failed to process URL', {
+								provider: this.name,
+								url: single_url,
+								error,
+							});
 							return {
 								url: single_url,
 								content: '',
@@ -146,6 +162,8 @@ export class FirecrawlScrapeProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(scrape_request);
+		return retry_with_backoff(scrape_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
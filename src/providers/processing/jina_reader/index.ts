@@ -3,6 +3,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -18,6 +19,14 @@ export class JinaReaderProvider implements ProcessingProvider {
 	description =
 		'Convert any URL to clean, LLM-friendly text using Jina Reader API';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'low',
+	};
+
 	constructor() {
 		// Validate API key exists at construction time
 		validate_api_key(
@@ -26,7 +35,11 @@ export class JinaReaderProvider implements ProcessingProvider {
 		);
 	}
 
-	async process_content(url: string): Promise<ProcessingResult> {
+	async process_content(
+		url: string,
+		_extract_depth?: 'basic' | 'advanced',
+		signal?: AbortSignal,
+	): Promise<ProcessingResult> {
 		// Validate URL
 		validate_processing_urls(url, this.name);
 
@@ -47,9 +60,8 @@ export class JinaReaderProvider implements ProcessingProvider {
 						'Content-Type': 'application/json',
 					},
 					body: JSON.stringify({ url }),
-					signal: AbortSignal.timeout(
-						config.processing.jina_reader.timeout ?? 30000,
-					),
+					signal,
+					timeout: config.processing.jina_reader.timeout,
 				},
 			);
 
@@ -75,7 +87,14 @@ export class JinaReaderProvider implements ProcessingProvider {
 		};
 
 		try {
-			return await retry_with_backoff(process_url);
+			return await retry_with_backoff(
+				process_url,
+				undefined,
+				undefined,
+				{
+					signal,
+				},
+			);
 		} catch (error: unknown) {
 			handle_provider_error(error, this.name, 'process content');
 		}
@@ -3,6 +3,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -30,7 +31,19 @@ export class KagiSummarizerProvider implements ProcessingProvider {
 	description =
 		'Instantly summarizes content of any type and length from URLs. Supports pages, videos, and podcasts with transcripts. Best for quick comprehension of long-form content and multimedia resources.';
 
-	async process_content(url: string): Promise<ProcessingResult> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
+	async process_content(
+		url: string,
+		_extract_depth?: 'basic' | 'advanced',
+		signal?: AbortSignal,
+	): Promise<ProcessingResult> {
 		const api_key = validate_api_key(
 			config.processing.kagi_summarizer.api_key,
 			this.name,
@@ -47,9 +60,8 @@ export class KagiSummarizerProvider implements ProcessingProvider {
 						Authorization: `Bot ${api_key}`,
 					},
 					body: JSON.stringify({ url }),
-					signal: AbortSignal.timeout(
-						config.processing.kagi_summarizer.timeout,
-					),
+					signal,
+					timeout: config.processing.kagi_summarizer.timeout,
 				});
 
 				if (!data?.data?.output) {
@@ -74,6 +86,13 @@ export class KagiSummarizerProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(summarize_request);
+		return retry_with_backoff(
+			summarize_request,
+			undefined,
+			undefined,
+			{
+				signal,
+			},
+		);
 	}
 }
@@ -3,6 +3,7 @@ import {
 	ErrorType,
 	ProcessingProvider,
 	ProcessingResult,
+	ProviderCapabilities,
 	ProviderError,
 } from '../../../common/types.js';
 import {
@@ -31,9 +32,19 @@ export class TavilyExtractProvider implements ProcessingProvider {
 	description =
 		'Extract web page content from single or multiple URLs using Tavily Extract. Efficiently converts web content into clean, processable text with configurable extraction depth and optional image extraction. Returns both combined and individual URL content. Best for content analysis, data collection, and research.';
 
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: false,
+		max_results: 20,
+		returns_scores: false,
+		cost_tier: 'low',
+	};
+
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		const urls = validate_processing_urls(url, this.name);
 
@@ -58,16 +69,15 @@ export class TavilyExtractProvider implements ProcessingProvider {
 							include_images: false,
 							extract_depth,
 						}),
-						signal: AbortSignal.timeout(
-							config.processing.tavily_extract.timeout,
-						),
+						signal,
+						timeout: config.processing.tavily_extract.timeout,
 					},
 				);
 
 				// Check if there are any results
 				if (data.results.length === 0) {
 					throw new ProviderError(
-						ErrorType.PROVIDER_ERROR,
+						ErrorType.API_ERROR,
 						'No content extracted from URL',
 						this.name,
 					);
@@ -112,6 +122,8 @@ export class TavilyExtractProvider implements ProcessingProvider {
 			}
 		};
 
-		return retry_with_backoff(extract_request);
+		return retry_with_backoff(extract_request, undefined, undefined, {
+			signal,
+		});
 	}
 }
@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -28,7 +29,35 @@ export class BraveSearchProvider implements SearchProvider {
 	description =
 		'Privacy-focused search with operators: site:, -site:, filetype:/ext:, intitle:, inurl:, inbody:, inpage:, lang:, loc:, before:, after:, +term, -term, "exact". Best for technical content and privacy-sensitive queries.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [
+			'site:',
+			'-site:',
+			'filetype:',
+			'ext:',
+			'intitle:',
+			'inurl:',
+			'inbody:',
+			'inpage:',
+			'lang:',
+			'loc:',
+			'before:',
+			'after:',
+			'+term',
+			'-term',
+			'"exact"',
+		],
+		domain_filter: true,
+		date_filter: true,
+		max_results: 20,
+		returns_scores: false,
+		cost_tier: 'low',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.brave.api_key,
 			this.name,
@@ -51,6 +80,17 @@ export class BraveSearchProvider implements SearchProvider {
 				count: (params.limit ?? 10).toString(),
 			});
 
+			// Date range maps to Brave's freshness=YYYY-MM-DDtoYYYY-MM-DD
+			if (params.date_after || params.date_before) {
+				const from = params.date_after ?? '1970-01-01';
+				const to =
+					params.date_before ?? new Date().toISOString().slice(0, 10);
+				query_params.append('freshness', `${from}to${to}`);
+			}
+			if (params.language) {
+				query_params.append('search_lang', params.language);
+			}
+
 			const data = await http_json<
 				BraveSearchResponse & { message?: string }
 			>(
@@ -62,7 +102,8 @@ export class BraveSearchProvider implements SearchProvider {
 						Accept: 'application/json',
 						'X-Subscription-Token': api_key,
 					},
-					signal: AbortSignal.timeout(config.search.brave.timeout),
+					signal,
+					timeout: config.search.brave.timeout,
 				},
 			);
 
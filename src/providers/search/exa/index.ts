@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -16,6 +17,8 @@ interface ExaSearchRequest {
 	numResults?: number;
 	includeDomains?: string[];
 	excludeDomains?: string[];
+	startPublishedDate?: string;
+	endPublishedDate?: string;
 	contents?: {
 		text?: { maxCharacters?: number };
 		livecrawl?: 'always' | 'fallback' | 'preferred';
@@ -48,7 +51,19 @@ export class ExaSearchProvider implements SearchProvider {
 	description =
 		'AI-powered web search using neural and keyword search. Optimized for AI applications with semantic understanding, content extraction, and research capabilities.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: true,
+		date_filter: true,
+		max_results: 100,
+		returns_scores: true,
+		cost_tier: 'medium',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.exa.api_key,
 			this.name,
@@ -80,6 +95,14 @@ export class ExaSearchProvider implements SearchProvider {
 				request_body.excludeDomains = params.exclude_domains;
 			}
 
+			// Add published date range if provided
+			if (params.date_after) {
+				request_body.startPublishedDate = `${params.date_after}T00:00:00.000Z`;
+			}
+			if (params.date_before) {
+				request_body.endPublishedDate = `${params.date_before}T23:59:59.999Z`;
+			}
+
 			const data = await http_json<ExaSearchResponse>(
 				this.name,
 				`${config.search.exa.base_url}/search`,
@@ -92,6 +115,8 @@ export class ExaSearchProvider implements SearchProvider {
 						'Content-Type': 'application/json',
 					},
 					body: JSON.stringify(request_body),
+					signal,
+					timeout: config.search.exa.timeout,
 				},
 			);
 
@@ -1,11 +1,13 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
 import {
 	handle_provider_error,
+	to_us_date,
 	validate_api_key,
 } from '../../../common/utils.js';
 import { config } from '../../../config/env.js';
@@ -29,13 +31,42 @@ export class FirecrawlSearchProvider implements SearchProvider {
 	description =
 		'Web search via Firecrawl /v2/search endpoint. Returns web results with titles, URLs and descriptions.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: false,
+		date_filter: true,
+		max_results: 100,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.firecrawl.api_key,
 			this.name,
 		);
 
 		try {
+			const request_body: Record<string, unknown> = {
+				query: params.query,
+				limit: params.limit ?? 10,
+			};
+
+			// Date range uses Google-style custom date range (tbs=cdr)
+			if (params.date_after || params.date_before) {
+				const range = ['cdr:1'];
+				if (params.date_after) {
+					range.push(`cd_min:${to_us_date(params.date_after)}`);
+				}
+				if (params.date_before) {
+					range.push(`cd_max:${to_us_date(params.date_before)}`);
+				}
+				request_body.tbs = range.join(',');
+			}
+
 			const data = await http_json<FirecrawlSearchResponse>(
 				this.name,
 				`${config.search.firecrawl.base_url}/v2/search`,
@@ -45,13 +76,9 @@ export class FirecrawlSearchProvider implements SearchProvider {
 						'Content-Type': 'application/json',
 						Authorization: `Bearer ${api_key}`,
 					},
-					body: JSON.stringify({
-						query: params.query,
-						limit: params.limit ?? 10,
-					}),
-					signal: AbortSignal.timeout(
-						config.search.firecrawl.timeout,
-					),
+					body: JSON.stringify(request_body),
+					signal,
+					timeout: config.search.firecrawl.timeout,
 				},
 			);
 
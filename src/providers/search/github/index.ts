@@ -1,17 +1,60 @@
+import type {
+	EndpointOptions,
+	RequestInterface,
+} from '@octokit/types';
 import { Octokit } from 'octokit';
+import { with_provider_timeout } from '../../../common/latency.js';
+import { observe_upstream } from '../../../common/metrics.js';
 import {
 	BaseSearchParams,
 	ErrorType,
+	ProviderCapabilities,
 	ProviderError,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
 import {
+	is_abort_error,
+	parse_rate_limit_reset,
 	retry_with_backoff,
 	validate_api_key,
 } from '../../../common/utils.js';
 import { config } from '../../../config/env.js';
 
+// Octokit client that logs each upstream request
+const create_client = (api_key: string) => {
+	const octokit = new Octokit({ auth: api_key });
+	octokit.hook.wrap(
+		'request',
+		async (request: RequestInterface, options: EndpointOptions) => {
+			const start = performance.now();
+			try {
+				const response = await request(options);
+				observe_upstream(
+					'github',
+					config.search.github.base_url,
+					start,
+					{
+						status: response.status,
+					},
+				);
+				return response;
+			} catch (error) {
+				observe_upstream(
+					'github',
+					config.search.github.base_url,
+					start,
+					{
+						error,
+					},
+				);
+				throw error;
+			}
+		},
+	);
+	return octokit;
+};
+
 // Interface for individual code search result item from GitHub API
 interface GitHubCodeSearchResultItem {
 	name: string;
@@ -51,32 +94,65 @@ export class GitHubSearchProvider implements SearchProvider {
 	description =
 		'Search for code on GitHub. This is ideal for finding code examples, tracking down function definitions, or locating files with specific names or paths. Supports advanced query syntax with qualifiers like `filename:`, `path:`, `repo:`, `user:`, `language:`, and `in:file`. For example, to find a file named `settings.json` in a `.claude` directory, you could use the query: `filename:settings.json path:.claude`';
 
+	capabilities: ProviderCapabilities = {
+		operators: [
+			'repo:',
+			'user:',
+			'org:',
+			'language:',
+			'path:',
+			'extension:',
+			'filename:',
+			'stars:',
+			'created:',
+			'pushed:',
+		],
+		domain_filter: false,
+		date_filter: false,
+		max_results: 100,
+		returns_scores: true,
+		cost_tier: 'free',
+	};
+
 	// Main search method for code search (default behavior)
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
-		return this.search_code(params);
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
+		return this.search_code(params, signal);
 	}
 
 	// Dedicated code search method with enhanced snippets
 	async search_code(
 		params: BaseSearchParams & { include_snippets?: boolean },
+		signal?: AbortSignal,
 	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.github.api_key,
 			this.name,
 		);
-		const octokit = new Octokit({ auth: api_key });
+		const octokit = create_client(api_key);
 
 		const search_request = async () => {
 			try {
 				// Enable text matches to get better snippets
-				const response = await octokit.rest.search.code({
-					q: params.query,
-					per_page: params.limit ?? 10,
-					// Request text matches for better snippets
-					headers: {
-						accept: 'application/vnd.github.v3.text-match+json',
-					},
-				});
+				const response = await with_provider_timeout<{
+					data: { items: GitHubCodeSearchResultItem[] };
+				}>(
+					this.name,
+					config.search.github.timeout,
+					signal,
+					(request_signal) =>
+						octokit.rest.search.code({
+							q: params.query,
+							per_page: params.limit ?? 10,
+							// Request text matches for better snippets
+							headers: {
+								accept: 'application/vnd.github.v3.text-match+json',
+							},
+							request: { signal: request_signal },
+						}),
+				);
 
 				return response.data.items.map(
 					(item: GitHubCodeSearchResultItem) => {
@@ -113,7 +189,9 @@ export class GitHubSearchProvider implements SearchProvider {
 			}
 		};
 
-		return retry_with_backoff(search_request);
+		return retry_with_backoff(search_request, undefined, undefined, {
+			signal,
+		});
 	}
 
 	// Dedicated repository search method with enhanced metadata
@@ -121,20 +199,30 @@ export class GitHubSearchProvider implements SearchProvider {
 		params: BaseSearchParams & {
 			sort?: 'stars' | 'forks' | 'updated';
 		},
+		signal?: AbortSignal,
 	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.github.api_key,
 			this.name,
 		);
-		const octokit = new Octokit({ auth: api_key });
+		const octokit = create_client(api_key);
 
 		const search_request = async () => {
 			try {
-				const response = await octokit.rest.search.repos({
-					q: params.query,
-					per_page: params.limit ?? 10,
-					sort: params.sort,
-				});
+				const response = await with_provider_timeout<{
+					data: { items: GitHubRepositorySearchResultItem[] };
+				}>(
+					this.name,
+					config.search.github.timeout,
+					signal,
+					(request_signal) =>
+						octokit.rest.search.repos({
+							q: params.query,
+							per_page: params.limit ?? 10,
+							sort: params.sort,
+							request: { signal: request_signal },
+						}),
+				);
 
 				return response.data.items.map(
 					(item: GitHubRepositorySearchResultItem) => {
@@ -168,7 +256,9 @@ export class GitHubSearchProvider implements SearchProvider {
 			}
 		};
 
-		return retry_with_backoff(search_request);
+		return retry_with_backoff(search_request, undefined, undefined, {
+			signal,
+		});
 	}
 
 	// Alias for backward compatibility
@@ -183,19 +273,29 @@ export class GitHubSearchProvider implements SearchProvider {
 	// User search method
 	async search_users(
 		params: BaseSearchParams,
+		signal?: AbortSignal,
 	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.github.api_key,
 			this.name,
 		);
-		const octokit = new Octokit({ auth: api_key });
+		const octokit = create_client(api_key);
 
 		const search_request = async () => {
 			try {
-				const response = await octokit.rest.search.users({
-					q: params.query,
-					per_page: params.limit ?? 10,
-				});
+				const response = await with_provider_timeout<{
+					data: { items: any[] };
+				}>(
+					this.name,
+					config.search.github.timeout,
+					signal,
+					(request_signal) =>
+						octokit.rest.search.users({
+							q: params.query,
+							per_page: params.limit ?? 10,
+							request: { signal: request_signal },
+						}),
+				);
 
 				return response.data.items.map((user: any) => ({
 					title: user.login,
@@ -215,14 +315,33 @@ export class GitHubSearchProvider implements SearchProvider {
 			}
 		};
 
-		return retry_with_backoff(search_request);
+		return retry_with_backoff(search_request, undefined, undefined, {
+			signal,
+		});
 	}
 
 	// Centralized error handling
 	private handle_search_error(error: any): never {
+		if (is_abort_error(error)) throw error;
+
 		const status = error.status || 500;
 		const message = error.message || 'An unexpected error occurred.';
 
+		// GitHub signals exhausted rate limits with 403 + x-ratelimit-remaining: 0
+		const headers = error.response?.headers ?? {};
+		if (
+			status === 429 ||
+			(status === 403 &&
+				String(headers['x-ratelimit-remaining']) === '0')
+		) {
+			throw new ProviderError(
+				ErrorType.RATE_LIMIT,
+				`GitHub API rate limit exceeded: ${message}`,
+				this.name,
+				{ reset_time: parse_rate_limit_reset(headers) },
+			);
+		}
+
 		switch (status) {
 			case 401:
 			case 403:
@@ -237,15 +356,12 @@ export class GitHubSearchProvider implements SearchProvider {
 					`Invalid GitHub search query: ${message}`,
 					this.name,
 				);
-			case 429:
-				throw new ProviderError(
-					ErrorType.RATE_LIMIT,
-					`GitHub API rate limit exceeded: ${message}`,
-					this.name,
-				);
 			default:
+				// Errors without a status are network failures
 				throw new ProviderError(
-					ErrorType.PROVIDER_ERROR,
+					status >= 500
+						? ErrorType.PROVIDER_ERROR
+						: ErrorType.API_ERROR,
 					`GitHub API error: ${message}`,
 					this.name,
 					{ status },
@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -31,7 +32,34 @@ export class KagiSearchProvider implements SearchProvider {
 	description =
 		'High-quality search with operators: site:, -site:, filetype:/ext:, intitle:, inurl:, inbody:, inpage:, lang:, loc:, before:, after:, +term, -term, "exact". Privacy-focused with specialized knowledge indexes. Best for research and technical documentation.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [
+			'site:',
+			'-site:',
+			'filetype:',
+			'ext:',
+			'intitle:',
+			'inurl:',
+			'inbody:',
+			'inpage:',
+			'lang:',
+			'loc:',
+			'before:',
+			'after:',
+			'+term',
+			'-term',
+			'"exact"',
+		],
+		domain_filter: true,
+		date_filter: true,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.kagi.api_key,
 			this.name,
@@ -41,6 +69,11 @@ export class KagiSearchProvider implements SearchProvider {
 		const parsed_query = parse_search_operators(params.query);
 		const search_params = apply_search_operators(parsed_query);
 
+		// Explicit params fill in anything the query operators didn't set
+		search_params.date_after ??= params.date_after;
+		search_params.date_before ??= params.date_before;
+		search_params.language ??= params.language;
+
 		try {
 			// Build query with all operators using shared utility
 			// Exclude file_type and dates since Kagi handles them as query params
@@ -84,7 +117,8 @@ export class KagiSearchProvider implements SearchProvider {
 						Authorization: `Bot ${api_key}`,
 						Accept: 'application/json',
 					},
-					signal: AbortSignal.timeout(config.search.kagi.timeout),
+					signal,
+					timeout: config.search.kagi.timeout,
 				},
 			);
 
@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -26,7 +27,18 @@ export class LinkupSearchProvider implements SearchProvider {
 	description =
 		'Linkup web search with deep content extraction. Returns rich text snippets from source pages. Supports domain filtering.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: true,
+		date_filter: true,
+		returns_scores: false,
+		cost_tier: 'medium',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.linkup.api_key,
 			this.name,
@@ -54,6 +66,12 @@ export class LinkupSearchProvider implements SearchProvider {
 			) {
 				request_body.excludeDomains = params.exclude_domains;
 			}
+			if (params.date_after) {
+				request_body.fromDate = params.date_after;
+			}
+			if (params.date_before) {
+				request_body.toDate = params.date_before;
+			}
 
 			const data = await http_json<LinkupSearchResponse>(
 				this.name,
@@ -65,7 +83,8 @@ export class LinkupSearchProvider implements SearchProvider {
 						'Content-Type': 'application/json',
 					},
 					body: JSON.stringify(request_body),
-					signal: AbortSignal.timeout(config.search.linkup.timeout),
+					signal,
+					timeout: config.search.linkup.timeout,
 				},
 			);
 
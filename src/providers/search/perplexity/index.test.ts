@@ -0,0 +1,27 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { PerplexitySearchProvider } from './index.js';
+
+// Keys are read when the config module loads
+vi.hoisted(() => {
+	process.env.PERPLEXITY_API_KEY = 'test';
+});
+
+afterEach(() => {
+	vi.unstubAllGlobals();
+});
+
+describe('perplexity search', () => {
+	it('filters sources by the requested language', async () => {
+		const fetch = vi.fn(async (_url: string, _init: RequestInit) =>
+			Response.json({ citations: [] }),
+		);
+		vi.stubGlobal('fetch', fetch);
+
+		await new PerplexitySearchProvider().search({
+			query: 'q',
+			language: 'de',
+		});
+		const body = JSON.parse(String(fetch.mock.calls[0][1].body));
+		expect(body.search_language_filter).toEqual(['de']);
+	});
+});
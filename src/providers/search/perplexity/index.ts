@@ -1,11 +1,13 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
 import {
 	handle_provider_error,
+	to_us_date,
 	validate_api_key,
 } from '../../../common/utils.js';
 import { config } from '../../../config/env.js';
@@ -29,13 +31,58 @@ export class PerplexitySearchProvider implements SearchProvider {
 	description =
 		'Perplexity web search via sonar model. Returns citation URLs from AI-grounded web search.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: true,
+		date_filter: true,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.perplexity.api_key,
 			this.name,
 		);
 
 		try {
+			const request_body: Record<string, unknown> = {
+				model: 'sonar',
+				messages: [
+					{
+						role: 'user',
+						content: params.query,
+					},
+				],
+				temperature: 0.1,
+				max_tokens: 256,
+			};
+
+			// Domain filter takes included domains as-is, excluded ones prefixed with '-'
+			const domain_filter = [
+				...(params.include_domains ?? []),
+				...(params.exclude_domains ?? []).map((d) => `-${d}`),
+			];
+			if (domain_filter.length > 0) {
+				request_body.search_domain_filter = domain_filter;
+			}
+			if (params.date_after) {
+				request_body.search_after_date_filter = to_us_date(
+					params.date_after,
+				);
+			}
+			if (params.date_before) {
+				request_body.search_before_date_filter = to_us_date(
+					params.date_before,
+				);
+			}
+			if (params.language) {
+				request_body.search_language_filter = [params.language];
+			}
+
 			const data = await http_json<PerplexitySearchResponse>(
 				this.name,
 				`${config.search.perplexity.base_url}/chat/completions`,
@@ -46,20 +93,9 @@ export class PerplexitySearchProvider implements SearchProvider {
 						'content-type': 'application/json',
 						Authorization: `Bearer ${api_key}`,
 					},
-					body: JSON.stringify({
-						model: 'sonar',
-						messages: [
-							{
-								role: 'user',
-								content: params.query,
-							},
-						],
-						temperature: 0.1,
-						max_tokens: 256,
-					}),
-					signal: AbortSignal.timeout(
-						config.search.perplexity.timeout,
-					),
+					body: JSON.stringify(request_body),
+					signal,
+					timeout: config.search.perplexity.timeout,
 				},
 			);
 
@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -16,6 +17,7 @@ interface SerpApiOrganicResult {
 	link: string;
 	snippet?: string;
 	displayed_link?: string;
+	date?: string;
 }
 
 interface SerpApiSearchResponse {
@@ -26,12 +28,35 @@ interface SerpApiSearchResponse {
 	};
 }
 
+// Google returns at most 100 results per request
+const MAX_RESULTS = 100;
+
 export class SerpApiSearchProvider implements SearchProvider {
 	name = 'serpapi';
 	description =
 		'Google search via SerpAPI. Uses google_light engine for fast organic results with snippets. Supports all Google search operators (site:, filetype:, intitle:, etc.).';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [
+			'site:',
+			'-site:',
+			'filetype:',
+			'intitle:',
+			'inurl:',
+			'-term',
+			'"exact"',
+		],
+		domain_filter: false,
+		date_filter: false,
+		max_results: MAX_RESULTS,
+		returns_scores: false,
+		cost_tier: 'high',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.serpapi.api_key,
 			this.name,
@@ -42,15 +67,19 @@ export class SerpApiSearchProvider implements SearchProvider {
 				engine: 'google_light',
 				q: params.query,
 				api_key,
-				num: (params.limit ?? 10).toString(),
+				num: Math.min(params.limit ?? 10, MAX_RESULTS).toString(),
 			});
+			if (params.language) {
+				query_params.append('hl', params.language);
+			}
 
 			const data = await http_json<SerpApiSearchResponse>(
 				this.name,
 				`${config.search.serpapi.base_url}?${query_params}`,
 				{
 					method: 'GET',
-					signal: AbortSignal.timeout(config.search.serpapi.timeout),
+					signal,
+					timeout: config.search.serpapi.timeout,
 				},
 			);
 
@@ -59,6 +88,11 @@ export class SerpApiSearchProvider implements SearchProvider {
 				url: result.link,
 				snippet: result.snippet || '',
 				source_provider: this.name,
+				// google_light can't filter natively; the date lets
+				// web_search apply date ranges after the fact
+				...(result.date
+					? { metadata: { published_date: result.date } }
+					: {}),
 			}));
 		} catch (error) {
 			handle_provider_error(error, this.name, 'fetch search results');
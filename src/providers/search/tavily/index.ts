@@ -1,6 +1,7 @@
 import { http_json } from '../../../common/http.js';
 import {
 	BaseSearchParams,
+	ProviderCapabilities,
 	SearchProvider,
 	SearchResult,
 } from '../../../common/types.js';
@@ -27,7 +28,19 @@ export class TavilySearchProvider implements SearchProvider {
 	description =
 		'Search the web using Tavily Search API. Best for factual queries requiring reliable sources and citations. Supports domain filtering through API parameters (include_domains/exclude_domains). Provides high-quality results for technical, scientific, and academic topics. Use when you need verified information with strong citation support.';
 
-	async search(params: BaseSearchParams): Promise<SearchResult[]> {
+	capabilities: ProviderCapabilities = {
+		operators: [],
+		domain_filter: true,
+		date_filter: true,
+		max_results: 20,
+		returns_scores: true,
+		cost_tier: 'low',
+	};
+
+	async search(
+		params: BaseSearchParams,
+		signal?: AbortSignal,
+	): Promise<SearchResult[]> {
 		const api_key = validate_api_key(
 			config.search.tavily.api_key,
 			this.name,
@@ -47,6 +60,12 @@ export class TavilySearchProvider implements SearchProvider {
 				search_depth: 'basic',
 				topic: 'general',
 			};
+			if (params.date_after) {
+				request_body.start_date = params.date_after;
+			}
+			if (params.date_before) {
+				request_body.end_date = params.date_before;
+			}
 
 			const data = await http_json<
 				TavilySearchResponse & { message?: string }
@@ -57,6 +76,8 @@ export class TavilySearchProvider implements SearchProvider {
 					'Content-Type': 'application/json',
 				},
 				body: JSON.stringify(request_body),
+				signal,
+				timeout: config.search.tavily.timeout,
 			});
 
 			return (data.results || []).map((result) => ({
@@ -5,24 +5,13 @@ import {
 	SearchProvider,
 	SearchResult,
 } from '../../common/types.js';
-import { BraveAnswerProvider } from '../ai_response/brave_answer/index.js';
-import { ExaAnswerProvider } from '../ai_response/exa_answer/index.js';
-import { GeminiProvider } from '../ai_response/gemini/index.js';
-import { KagiFastGPTProvider } from '../ai_response/kagi_fastgpt/index.js';
-import { PerplexityProvider } from '../ai_response/perplexity/index.js';
-import { TavilyAnswerProvider } from '../ai_response/tavily_answer/index.js';
-import { SerpApiAnswerProvider } from '../ai_response/serpapi_answer/index.js';
-import { YouSearchProvider } from '../ai_response/you_search/index.js';
+import { get_unified_entries } from '../manifest.js';
 
-export type AISearchProvider =
-	| 'perplexity'
-	| 'kagi_fastgpt'
-	| 'exa_answer'
-	| 'brave_answer'
-	| 'tavily_answer'
-	| 'you_search'
-	| 'serpapi_answer'
-	| 'gemini';
+const entries = get_unified_entries('ai_search');
+
+export const AI_SEARCH_PROVIDERS = entries.map((entry) => entry.name);
+
+export type AISearchProvider = (typeof AI_SEARCH_PROVIDERS)[number];
 
 export interface UnifiedAISearchParams extends BaseSearchParams {
 	provider: AISearchProvider;
@@ -30,25 +19,25 @@ export interface UnifiedAISearchParams extends BaseSearchParams {
 
 export class UnifiedAISearchProvider implements SearchProvider {
 	name = 'ai_search';
-	description =
-		'AI-powered search with reasoning. Supports perplexity, kagi_fastgpt, exa_answer, brave_answer, tavily_answer, you_search, serpapi_answer (Google AI Overview), gemini (Gemini Flash + Google Search grounding).';
+	description = `AI-powered search with reasoning. Supports ${AI_SEARCH_PROVIDERS.join(', ')}. serpapi_answer is Google AI Overview; gemini is Gemini Flash with Google Search grounding.`;
 
 	private providers: Map<AISearchProvider, SearchProvider> =
 		new Map();
 
 	constructor() {
-		this.providers.set('perplexity', new PerplexityProvider());
-		this.providers.set('kagi_fastgpt', new KagiFastGPTProvider());
-		this.providers.set('exa_answer', new ExaAnswerProvider());
-		this.providers.set('brave_answer', new BraveAnswerProvider());
-		this.providers.set('tavily_answer', new TavilyAnswerProvider());
-		this.providers.set('you_search', new YouSearchProvider());
-		this.providers.set('serpapi_answer', new SerpApiAnswerProvider());
-		this.providers.set('gemini', new GeminiProvider());
+		for (const entry of entries) {
+			this.providers.set(entry.name, entry.create());
+		}
+	}
+
+	// Concrete providers, for the provider-info resource
+	get_sub_providers(): SearchProvider[] {
+		return Array.from(this.providers.values());
 	}
 
 	async search(
 		params: UnifiedAISearchParams,
+		signal?: AbortSignal,
 	): Promise<SearchResult[]> {
 		const { provider, ...searchParams } = params;
 
@@ -70,6 +59,6 @@ export class UnifiedAISearchProvider implements SearchProvider {
 			);
 		}
 
-		return selectedProvider.search(searchParams);
+		return selectedProvider.search(searchParams, signal);
 	}
 }
@@ -4,10 +4,13 @@ import {
 	ProcessingResult,
 	ProviderError,
 } from '../../common/types.js';
-import { ExaContentsProvider } from '../processing/exa_contents/index.js';
-import { ExaSimilarProvider } from '../processing/exa_similar/index.js';
+import { get_unified_entries } from '../manifest.js';
 
-export type ExaProcessMode = 'contents' | 'similar';
+const entries = get_unified_entries('exa_process');
+
+export const EXA_PROCESS_MODES = entries.map((entry) => entry.mode);
+
+export type ExaProcessMode = (typeof EXA_PROCESS_MODES)[number];
 
 export interface UnifiedExaProcessingProvider {
 	name: string;
@@ -16,7 +19,10 @@ export interface UnifiedExaProcessingProvider {
 		url: string | string[],
 		extract_depth?: 'basic' | 'advanced',
 		mode?: ExaProcessMode,
+		signal?: AbortSignal,
 	): Promise<ProcessingResult>;
+	get_sub_providers(): ProcessingProvider[];
+	get_mode_provider(mode: ExaProcessMode): string;
 }
 
 export class UnifiedExaProcessProvider implements UnifiedExaProcessingProvider {
@@ -28,14 +34,27 @@ export class UnifiedExaProcessProvider implements UnifiedExaProcessingProvider {
 		new Map();
 
 	constructor() {
-		this.providers.set('contents', new ExaContentsProvider());
-		this.providers.set('similar', new ExaSimilarProvider());
+		for (const entry of entries) {
+			this.providers.set(entry.mode, entry.create());
+		}
+	}
+
+	// Concrete providers, for the provider-info resource
+	get_sub_providers(): ProcessingProvider[] {
+		return Array.from(this.providers.values());
+	}
+
+	// Concrete provider serving a mode, which rate limits, quotas and
+	// the cache are keyed by
+	get_mode_provider(mode: ExaProcessMode): string {
+		return this.providers.get(mode)?.name ?? this.name;
 	}
 
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
 		mode: ExaProcessMode = 'contents',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		if (!mode) {
 			throw new ProviderError(
@@ -55,6 +74,10 @@ export class UnifiedExaProcessProvider implements UnifiedExaProcessingProvider {
 			);
 		}
 
-		return selectedProvider.process_content(url, extract_depth);
+		return selectedProvider.process_content(
+			url,
+			extract_depth,
+			signal,
+		);
 	}
 }
@@ -4,18 +4,13 @@ import {
 	ProcessingResult,
 	ProviderError,
 } from '../../common/types.js';
-import { FirecrawlActionsProvider } from '../processing/firecrawl_actions/index.js';
-import { FirecrawlCrawlProvider } from '../processing/firecrawl_crawl/index.js';
-import { FirecrawlExtractProvider } from '../processing/firecrawl_extract/index.js';
-import { FirecrawlMapProvider } from '../processing/firecrawl_map/index.js';
-import { FirecrawlScrapeProvider } from '../processing/firecrawl_scrape/index.js';
+import { get_unified_entries } from '../manifest.js';
 
-export type FirecrawlMode =
-	| 'scrape'
-	| 'crawl'
-	| 'map'
-	| 'extract'
-	| 'actions';
+const entries = get_unified_entries('firecrawl_process');
+
+export const FIRECRAWL_MODES = entries.map((entry) => entry.mode);
+
+export type FirecrawlMode = (typeof FIRECRAWL_MODES)[number];
 
 export interface UnifiedFirecrawlProcessingProvider {
 	name: string;
@@ -24,7 +19,10 @@ export interface UnifiedFirecrawlProcessingProvider {
 		url: string | string[],
 		extract_depth?: 'basic' | 'advanced',
 		mode?: FirecrawlMode,
+		signal?: AbortSignal,
 	): Promise<ProcessingResult>;
+	get_sub_providers(): ProcessingProvider[];
+	get_mode_provider(mode: FirecrawlMode): string;
 }
 
 export class UnifiedFirecrawlProvider implements UnifiedFirecrawlProcessingProvider {
@@ -36,17 +34,27 @@ export class UnifiedFirecrawlProvider implements UnifiedFirecrawlProcessingProvi
 		new Map();
 
 	constructor() {
-		this.providers.set('scrape', new FirecrawlScrapeProvider());
-		this.providers.set('crawl', new FirecrawlCrawlProvider());
-		this.providers.set('map', new FirecrawlMapProvider());
-		this.providers.set('extract', new FirecrawlExtractProvider());
-		this.providers.set('actions', new FirecrawlActionsProvider());
+		for (const entry of entries) {
+			this.providers.set(entry.mode, entry.create());
+		}
+	}
+
+	// Concrete providers, for the provider-info resource
+	get_sub_providers(): ProcessingProvider[] {
+		return Array.from(this.providers.values());
+	}
+
+	// Concrete provider serving a mode, which rate limits, quotas and
+	// the cache are keyed by
+	get_mode_provider(mode: FirecrawlMode): string {
+		return this.providers.get(mode)?.name ?? this.name;
 	}
 
 	async process_content(
 		url: string | string[],
 		extract_depth: 'basic' | 'advanced' = 'basic',
 		mode: FirecrawlMode = 'scrape',
+		signal?: AbortSignal,
 	): Promise<ProcessingResult> {
 		if (!mode) {
 			throw new ProviderError(
@@ -66,6 +74,10 @@ export class UnifiedFirecrawlProvider implements UnifiedFirecrawlProcessingProvi
 			);
 		}
 
-		return selectedProvider.process_content(url, extract_depth);
+		return selectedProvider.process_content(
+			url,
+			extract_depth,
+			signal,
+		);
 	}
 }
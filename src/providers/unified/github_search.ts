@@ -5,7 +5,8 @@ import {
 	SearchProvider,
 	SearchResult,
 } from '../../common/types.js';
-import { GitHubSearchProvider } from '../search/github/index.js';
+import { get_unified_entries } from '../manifest.js';
+import type { GitHubSearchProvider } from '../search/github/index.js';
 
 export type GitHubSearchType = 'code' | 'repositories' | 'users';
 
@@ -22,24 +23,31 @@ export class UnifiedGitHubSearchProvider implements SearchProvider {
 	private provider: GitHubSearchProvider;
 
 	constructor() {
-		this.provider = new GitHubSearchProvider();
+		const [entry] = get_unified_entries('github_search');
+		this.provider = entry.create();
+	}
+
+	// Concrete providers, for the provider-info resource
+	get_sub_providers(): SearchProvider[] {
+		return [this.provider];
 	}
 
 	async search(
 		params: UnifiedGitHubSearchParams,
+		signal?: AbortSignal,
 	): Promise<SearchResult[]> {
 		const { search_type = 'code', sort, ...searchParams } = params;
 
 		switch (search_type) {
 			case 'code':
-				return this.provider.search_code(searchParams);
+				return this.provider.search_code(searchParams, signal);
 			case 'repositories':
-				return this.provider.search_repositories({
-					...searchParams,
-					sort,
-				});
+				return this.provider.search_repositories(
+					{ ...searchParams, sort },
+					signal,
+				);
 			case 'users':
-				return this.provider.search_users(searchParams);
+				return this.provider.search_users(searchParams, signal);
 			default:
 				throw new ProviderError(
 					ErrorType.INVALID_INPUT,
@@ -5,24 +5,15 @@ import {
 	SearchProvider,
 	SearchResult,
 } from '../../common/types.js';
-import { BraveSearchProvider } from '../search/brave/index.js';
-import { ExaSearchProvider } from '../search/exa/index.js';
-import { FirecrawlSearchProvider } from '../search/firecrawl/index.js';
-import { KagiSearchProvider } from '../search/kagi/index.js';
-import { LinkupSearchProvider } from '../search/linkup/index.js';
-import { PerplexitySearchProvider } from '../search/perplexity/index.js';
-import { SerpApiSearchProvider } from '../search/serpapi/index.js';
-import { TavilySearchProvider } from '../search/tavily/index.js';
+import { get_unified_entries } from '../manifest.js';
 
-export type WebSearchProvider =
-	| 'tavily'
-	| 'brave'
-	| 'kagi'
-	| 'exa'
-	| 'firecrawl'
-	| 'perplexity'
-	| 'serpapi'
-	| 'linkup';
+const entries = get_unified_entries('web_search');
+
+export const WEB_SEARCH_PROVIDERS = entries.map(
+	(entry) => entry.name,
+);
+
+export type WebSearchProvider = (typeof WEB_SEARCH_PROVIDERS)[number];
 
 export interface UnifiedWebSearchParams extends BaseSearchParams {
 	provider: WebSearchProvider;
@@ -30,25 +21,25 @@ export interface UnifiedWebSearchParams extends BaseSearchParams {
 
 export class UnifiedWebSearchProvider implements SearchProvider {
 	name = 'web_search';
-	description =
-		'Search the web. Providers: tavily, brave, kagi, exa, firecrawl, perplexity, serpapi, linkup. Brave/Kagi/SerpAPI support query operators like site:, filetype:, lang:, etc.';
+	description = `Search the web. Providers: ${WEB_SEARCH_PROVIDERS.join(', ')}. Brave/Kagi/SerpAPI support query operators like site:, filetype:, lang:, etc.`;
 
 	private providers: Map<WebSearchProvider, SearchProvider> =
 		new Map();
 
 	constructor() {
-		this.providers.set('tavily', new TavilySearchProvider());
-		this.providers.set('brave', new BraveSearchProvider());
-		this.providers.set('kagi', new KagiSearchProvider());
-		this.providers.set('exa', new ExaSearchProvider());
-		this.providers.set('firecrawl', new FirecrawlSearchProvider());
-		this.providers.set('perplexity', new PerplexitySearchProvider());
-		this.providers.set('serpapi', new SerpApiSearchProvider());
-		this.providers.set('linkup', new LinkupSearchProvider());
+		for (const entry of entries) {
+			this.providers.set(entry.name, entry.create());
+		}
+	}
+
+	// Concrete providers, for the provider-info resource
+	get_sub_providers(): SearchProvider[] {
+		return Array.from(this.providers.values());
 	}
 
 	async search(
 		params: UnifiedWebSearchParams,
+		signal?: AbortSignal,
 	): Promise<SearchResult[]> {
 		const { provider, ...searchParams } = params;
 
@@ -70,6 +61,6 @@ export class UnifiedWebSearchProvider implements SearchProvider {
 			);
 		}
 
-		return selectedProvider.search(searchParams);
+		return selectedProvider.search(searchParams, signal);
 	}
 }
@@ -0,0 +1,65 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { MiddlewareMcpServer } from './middleware.js';
+
+// tmcp ignores notifications/cancelled, so every incoming request gets
+// its own AbortController, keyed by session and request id, and tool
+// handlers read the signal of the request they are serving
+const request_signal_storage = new AsyncLocalStorage<AbortSignal>();
+const in_flight = new Map<string, AbortController>();
+
+interface IncomingMessage {
+	id?: string | number | null;
+	method?: string;
+	params?: {
+		requestId?: string | number;
+		reason?: string;
+	};
+}
+
+const request_key = (
+	session_id: string | undefined,
+	request_id: string | number,
+) => `${session_id ?? 'stdio'}:${request_id}`;
+
+/**
+ * Get the cancellation signal of the MCP request being handled
+ * @returns The signal, or undefined outside a request
+ */
+export const get_request_signal = (): AbortSignal | undefined =>
+	request_signal_storage.getStore();
+
+export const setup_cancellation = (server: MiddlewareMcpServer) => {
+	server.use((message, ctx, next) => {
+		const { id, method, params } = message as IncomingMessage;
+
+		if (method === 'notifications/cancelled') {
+			if (params?.requestId != null) {
+				in_flight
+					.get(request_key(ctx?.sessionId, params.requestId))
+					?.abort(
+						new DOMException(
+							params.reason ?? 'Request cancelled by client',
+							'AbortError',
+						),
+					);
+			}
+			return next();
+		}
+
+		if (!method || id == null) return next();
+
+		const key = request_key(ctx?.sessionId, id);
+		const controller = new AbortController();
+		in_flight.set(key, controller);
+		return request_signal_storage.run(controller.signal, async () => {
+			try {
+				return await next();
+			} finally {
+				if (in_flight.get(key) === controller) in_flight.delete(key);
+			}
+		});
+	});
+
+	// A cancelled request sends no further progress notifications
+	server.filter_progress(() => !get_request_signal()?.aborted);
+};
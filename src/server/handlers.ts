@@ -1,6 +1,70 @@
 import { McpServer } from 'tmcp';
 import type { GenericSchema } from 'valibot';
-import { available_providers } from './tools.js';
+import { get_circuit_statuses } from '../common/circuit_breaker.js';
+import {
+	get_provider_probes,
+	get_readiness,
+	type ProviderProbe,
+} from '../common/health.js';
+import { get_latency_percentile } from '../common/latency.js';
+import {
+	get_quota_exhaustion,
+	get_quota_usage,
+	get_rate_limits,
+} from '../common/rate_limit.js';
+import { provider_key } from '../common/types.js';
+import {
+	get_configured_providers,
+	is_provider_configured,
+	PROVIDER_MANIFEST,
+} from '../providers/manifest.js';
+import {
+	available_providers,
+	get_sub_providers,
+	type RegisteredSubProvider,
+} from './tools.js';
+
+const round_ms = (ms: number | undefined) =>
+	ms === undefined ? undefined : Math.round(ms);
+
+// Declared capabilities of one concrete provider plus its live stats
+const build_provider_info = async (
+	{ category, tool, provider }: RegisteredSubProvider,
+	probes: Record<string, ProviderProbe> | undefined,
+) => {
+	const { name } = provider;
+	const circuit =
+		get_circuit_statuses()[provider_key(category, name)];
+	const quota_exhausted = await get_quota_exhaustion(category, name);
+
+	return {
+		name,
+		category,
+		tool,
+		description: provider.description,
+		status: quota_exhausted
+			? 'quota_exhausted'
+			: circuit && circuit.state !== 'closed'
+				? `circuit_${circuit.state}`
+				: 'active',
+		capabilities: provider.capabilities,
+		// Client-side limits from OMNISEARCH_RATE_LIMITS and the quota
+		// variables; unset when not configured
+		rate_limits: get_rate_limits(category, name),
+		stats: {
+			latency_p50_ms: round_ms(
+				get_latency_percentile(category, name, 0.5),
+			),
+			latency_p95_ms: round_ms(
+				get_latency_percentile(category, name, 0.95),
+			),
+			quota_usage: await get_quota_usage(category, name),
+			quota_exhausted,
+			circuit_breaker: circuit,
+			probe: probes?.[provider_key(category, name)],
+		},
+	};
+};
 
 export const setup_handlers = (server: McpServer<GenericSchema>) => {
 	// Provider Status Resource
@@ -11,6 +75,23 @@ export const setup_handlers = (server: McpServer<GenericSchema>) => {
 			uri: 'omnisearch://providers/status',
 		},
 		async () => {
+			const { degraded, probes, circuit_breakers } =
+				await get_readiness(get_configured_providers());
+
+			// Every provider in the manifest, grouped by category
+			const sub_providers: Record<
+				string,
+				Array<{ name: string; tool: string; configured: boolean }>
+			> = {};
+			for (const entry of PROVIDER_MANIFEST) {
+				(sub_providers[entry.category] ??= []).push({
+					name: entry.name,
+					tool: 'unified' in entry ? entry.unified : entry.name,
+					configured: is_provider_configured(entry),
+				});
+			}
+			const tools = Object.entries(available_providers);
+
 			return {
 				contents: [
 					{
@@ -18,30 +99,30 @@ export const setup_handlers = (server: McpServer<GenericSchema>) => {
 						mimeType: 'application/json',
 						text: JSON.stringify(
 							{
-								status: 'operational',
-								providers: {
-									search: Array.from(available_providers.search),
-									ai_response: Array.from(
-										available_providers.ai_response,
-									),
-									processing: Array.from(
-										available_providers.processing,
+								// degraded while any sub-provider's circuit is open or
+								// probing, or its host failed the last probe
+								status: degraded ? 'degraded' : 'operational',
+								providers: Object.fromEntries(
+									tools.map(([category, names]) => [
+										category,
+										Array.from(names),
+									]),
+								),
+								available_count: {
+									...Object.fromEntries(
+										tools.map(([category, names]) => [
+											category,
+											names.size,
+										]),
 									),
-									enhancement: Array.from(
-										available_providers.enhancement,
+									total: tools.reduce(
+										(total, [, names]) => total + names.size,
+										0,
 									),
 								},
-								available_count: {
-									search: available_providers.search.size,
-									ai_response: available_providers.ai_response.size,
-									processing: available_providers.processing.size,
-									enhancement: available_providers.enhancement.size,
-									total:
-										available_providers.search.size +
-										available_providers.ai_response.size +
-										available_providers.processing.size +
-										available_providers.enhancement.size,
-								},
+								sub_providers,
+								...(probes ? { probes } : {}),
+								circuit_breakers,
 							},
 							null,
 							2,
@@ -53,55 +134,58 @@ export const setup_handlers = (server: McpServer<GenericSchema>) => {
 	);
 
 	// Provider Info Resource Template
-	server.resource(
+	server.template(
 		{
 			name: 'provider-info',
-			description: 'Information about a specific search provider',
+			description:
+				'Capabilities and live stats for a provider, or for every provider behind a tool',
 			uri: 'omnisearch://search/{provider}/info',
 		},
-		async (uri) => {
-			// Handle provider info template
-			const providerMatch = uri.match(
-				/^omnisearch:\/\/search\/([^/]+)\/info$/,
-			);
-			if (providerMatch) {
-				const providerName = providerMatch[1];
+		async (uri, params) => {
+			const providerName = String(params.provider);
 
-				// Check if provider is available
-				const isAvailable =
-					available_providers.search.has(providerName) ||
-					available_providers.ai_response.has(providerName);
-
-				if (!isAvailable) {
-					throw new Error(
-						`Provider not available: ${providerName} (missing API key)`,
-					);
-				}
+			// Unified tools construct every sub-provider, so only the
+			// ones with an API key are listed
+			const configured_providers = get_configured_providers();
+			const configured = new Set(
+				configured_providers.map(({ category, name }) =>
+					provider_key(category, name),
+				),
+			);
+			const matches = get_sub_providers().filter(
+				({ category, tool, provider }) =>
+					configured.has(provider_key(category, provider.name)) &&
+					(provider.name === providerName || tool === providerName),
+			);
 
-				return {
-					contents: [
-						{
-							uri,
-							mimeType: 'application/json',
-							text: JSON.stringify(
-								{
-									name: providerName,
-									status: 'active',
-									capabilities: ['web_search', 'news_search'],
-									rate_limits: {
-										requests_per_minute: 60,
-										requests_per_day: 1000,
-									},
-								},
-								null,
-								2,
-							),
-						},
-					],
-				};
+			if (!matches.length) {
+				throw new Error(
+					`Provider not available: ${providerName} (missing API key)`,
+				);
 			}
 
-			throw new Error(`Unknown resource URI: ${uri}`);
+			const probes = await get_provider_probes(configured_providers);
+			const infos = await Promise.all(
+				matches.map((match) => build_provider_info(match, probes)),
+			);
+
+			return {
+				contents: [
+					{
+						uri,
+						mimeType: 'application/json',
+						// A tool name, or a name used in two categories (e.g.
+						// perplexity), lists each matching provider
+						text: JSON.stringify(
+							infos.length === 1 && infos[0].name === providerName
+								? infos[0]
+								: { name: providerName, providers: infos },
+							null,
+							2,
+						),
+					},
+				],
+			};
 		},
 	);
 };
@@ -0,0 +1,53 @@
+import { randomUUID } from 'node:crypto';
+import {
+	get_log_context,
+	logger,
+	with_log_context,
+} from '../common/logger.js';
+import type { MiddlewareMcpServer } from './middleware.js';
+
+interface IncomingMessage {
+	id?: string | number | null;
+	method?: string;
+	params?: {
+		name?: string;
+	};
+}
+
+// Every MCP request runs under a request id (the HTTP request's when
+// there is one) so all log lines of a tool call, including each
+// provider branch it fans out to, can be correlated
+export const setup_request_logging = (
+	server: MiddlewareMcpServer,
+) => {
+	server.use((message, _ctx, next) => {
+		const { id, method, params } = message as IncomingMessage;
+		if (!method || id == null) return next();
+
+		const tool = method === 'tools/call' ? params?.name : undefined;
+		return with_log_context(
+			{
+				request_id: get_log_context().request_id ?? randomUUID(),
+				tool,
+			},
+			async () => {
+				const start = performance.now();
+				try {
+					const result = await next();
+					logger.info('mcp request', {
+						method,
+						latency_ms: Math.round(performance.now() - start),
+					});
+					return result;
+				} catch (error) {
+					logger.error('mcp request failed', {
+						method,
+						latency_ms: Math.round(performance.now() - start),
+						error,
+					});
+					throw error;
+				}
+			},
+		);
+	});
+};
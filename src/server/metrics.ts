@@ -0,0 +1,57 @@
+import {
+	tool_call_duration,
+	tool_calls,
+	tool_calls_in_flight,
+} from '../common/metrics.js';
+import type { MiddlewareMcpServer } from './middleware.js';
+
+interface IncomingMessage {
+	id?: string | number | null;
+	method?: string;
+	params?: {
+		name?: string;
+	};
+}
+
+interface OutgoingMessage {
+	error?: unknown;
+	result?: {
+		isError?: boolean;
+	};
+}
+
+// Tool call counts, latency and concurrency for /metrics. Tools report
+// most failures as isError results rather than JSON-RPC errors, so
+// both count as errors.
+export const setup_request_metrics = (
+	server: MiddlewareMcpServer,
+) => {
+	server.use((message, _ctx, next) => {
+		const { id, method, params } = message as IncomingMessage;
+		if (method !== 'tools/call' || id == null) return next();
+
+		const labels = { tool: params?.name ?? 'unknown' };
+		const start = performance.now();
+		tool_calls_in_flight.inc(labels);
+		const record = (status: 'ok' | 'error') => {
+			tool_calls_in_flight.dec(labels);
+			tool_calls.inc({ ...labels, status });
+			tool_call_duration.observe(
+				labels,
+				(performance.now() - start) / 1000,
+			);
+		};
+
+		return Promise.resolve(next()).then(
+			(response) => {
+				const { error, result } = (response ?? {}) as OutgoingMessage;
+				record(error || result?.isError ? 'error' : 'ok');
+				return response;
+			},
+			(error) => {
+				record('error');
+				throw error;
+			},
+		);
+	});
+};
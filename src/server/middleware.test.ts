@@ -0,0 +1,84 @@
+import { ValibotJsonSchemaAdapter } from '@tmcp/adapter-valibot';
+import { McpServer } from 'tmcp';
+import { describe, expect, it, vi } from 'vitest';
+import { MiddlewareMcpServer } from './middleware.js';
+
+const create_server = () => {
+	const server = new MiddlewareMcpServer(
+		{ name: 'test', version: '0.0.0', description: 'test server' },
+		{
+			adapter: new ValibotJsonSchemaAdapter(),
+			capabilities: { tools: { listChanged: true } },
+		},
+	);
+	server.tool({ name: 'echo', description: 'Echo' }, async () => ({
+		content: [{ type: 'text', text: 'echo' }],
+	}));
+	return server;
+};
+
+const call_echo = (server: MiddlewareMcpServer) =>
+	server.receive({
+		jsonrpc: '2.0',
+		id: 1,
+		method: 'tools/call',
+		params: { name: 'echo', arguments: {} },
+	});
+
+describe('MiddlewareMcpServer', () => {
+	it('runs middleware in the order added around tmcp', async () => {
+		const server = create_server();
+		const calls: string[] = [];
+		server.use(async (_message, _ctx, next) => {
+			calls.push('outer in');
+			const response = await next();
+			calls.push('outer out');
+			return response;
+		});
+		server.use(async (_message, _ctx, next) => {
+			calls.push('inner in');
+			const response = await next();
+			calls.push('inner out');
+			return response;
+		});
+
+		expect(await call_echo(server)).toMatchObject({
+			result: { content: [{ text: 'echo' }] },
+		});
+		expect(calls).toEqual([
+			'outer in',
+			'inner in',
+			'inner out',
+			'outer out',
+		]);
+	});
+
+	it('lets middleware answer without calling the tool', async () => {
+		const server = create_server();
+		server.use(async () => ({
+			jsonrpc: '2.0' as const,
+			id: 1,
+			result: { content: [] },
+		}));
+
+		expect(await call_echo(server)).toEqual({
+			jsonrpc: '2.0',
+			id: 1,
+			result: { content: [] },
+		});
+	});
+
+	it('drops progress notifications a filter rejects', () => {
+		const server = create_server();
+		const progress = vi.spyOn(McpServer.prototype, 'progress');
+		let allowed = true;
+		server.filter_progress(() => allowed);
+
+		server.progress(1, 2);
+		allowed = false;
+		server.progress(2, 2);
+		expect(progress).toHaveBeenCalledTimes(1);
+		expect(progress).toHaveBeenCalledWith(1, 2, undefined);
+		progress.mockRestore();
+	});
+});
@@ -0,0 +1,65 @@
+import { McpServer } from 'tmcp';
+import type { GenericSchema } from 'valibot';
+
+type Receive = McpServer<GenericSchema>['receive'];
+type ReceiveResult = ReturnType<Receive>;
+
+/**
+ * Runs around the handling of one incoming JSON-RPC message
+ * @param message The message as received
+ * @param ctx The transport context (session id, auth, ...)
+ * @param next Hands the message to the next middleware, or to tmcp
+ * @returns What next returned, or a replacement
+ */
+export type RequestMiddleware = (
+	message: Parameters<Receive>[0],
+	ctx: Parameters<Receive>[1],
+	next: () => ReceiveResult,
+) => ReceiveResult | Promise<Awaited<ReceiveResult>>;
+
+// tmcp has no hooks, so request middleware and progress filters are
+// added by overriding the two entry points they need
+export class MiddlewareMcpServer extends McpServer<GenericSchema> {
+	private middleware: RequestMiddleware[] = [];
+	private progress_filters: Array<() => boolean> = [];
+
+	/**
+	 * Add request middleware. Middleware runs in the order added, each
+	 * wrapping the handling of everything added after it.
+	 * @param middleware The middleware
+	 */
+	use(middleware: RequestMiddleware) {
+		this.middleware.push(middleware);
+	}
+
+	/**
+	 * Add a check that progress notifications must pass to be sent
+	 * @param filter Returns false to drop the notification
+	 */
+	filter_progress(filter: () => boolean) {
+		this.progress_filters.push(filter);
+	}
+
+	override receive(
+		message: Parameters<Receive>[0],
+		ctx?: Parameters<Receive>[1],
+	): ReceiveResult {
+		const dispatch = (index: number): ReceiveResult =>
+			index < this.middleware.length
+				? (this.middleware[index](message, ctx, () =>
+						dispatch(index + 1),
+					) as ReceiveResult)
+				: super.receive(message, ctx);
+		return dispatch(0);
+	}
+
+	override progress(
+		progress: number,
+		total?: number,
+		message?: string,
+	) {
+		if (this.progress_filters.every((filter) => filter())) {
+			super.progress(progress, total, message);
+		}
+	}
+}
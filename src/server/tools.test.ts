@@ -0,0 +1,441 @@
+import { ValibotJsonSchemaAdapter } from '@tmcp/adapter-valibot';
+import { McpServer } from 'tmcp';
+import { rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+	afterAll,
+	afterEach,
+	describe,
+	expect,
+	it,
+	vi,
+} from 'vitest';
+import {
+	with_provider_category,
+	with_provider_timeout,
+} from '../common/latency.js';
+import { get_quota_usage } from '../common/rate_limit.js';
+import { hedge_config, rate_limit_config } from '../config/env.js';
+import {
+	ErrorType,
+	ProcessingResult,
+	ProviderError,
+	SearchResult,
+} from '../common/types.js';
+import {
+	FirecrawlMode,
+	UnifiedFirecrawlProvider,
+} from '../providers/unified/firecrawl_process.js';
+import { UnifiedGitHubSearchProvider } from '../providers/unified/github_search.js';
+import {
+	UnifiedAISearchParams,
+	UnifiedAISearchProvider,
+} from '../providers/unified/ai_search.js';
+import {
+	UnifiedWebSearchParams,
+	UnifiedWebSearchProvider,
+} from '../providers/unified/web_search.js';
+import {
+	register_ai_search_provider,
+	register_firecrawl_process_provider,
+	register_github_search_provider,
+	register_tools,
+	register_web_search_provider,
+} from './tools.js';
+
+// Keys and tool exposure are read when the config module loads
+vi.hoisted(() => {
+	for (const key of [
+		'PERPLEXITY_API_KEY',
+		'KAGI_API_KEY',
+		'EXA_API_KEY',
+		'TAVILY_API_KEY',
+		'BRAVE_API_KEY',
+		'LINKUP_API_KEY',
+		'SERPAPI_API_KEY',
+		'GITHUB_API_KEY',
+		'FIRECRAWL_API_KEY',
+	]) {
+		process.env[key] = 'test';
+	}
+	process.env.OMNISEARCH_EXPOSE_ALL_TOOLS = 'true';
+});
+
+interface FakeAnswer {
+	delay_ms: number;
+	error?: Error;
+}
+
+interface FakeState {
+	answers: Record<string, FakeAnswer>;
+	called: string[];
+	aborted: string[];
+}
+
+// Answers after a delay unless its signal aborts first
+const fake_search = async (
+	state: FakeState,
+	provider: string,
+	query: string,
+	signal?: AbortSignal,
+): Promise<SearchResult[]> => {
+	const { delay_ms, error } = state.answers[provider];
+	state.called.push(provider);
+	await new Promise<void>((resolve, reject) => {
+		const timer = setTimeout(resolve, delay_ms);
+		signal?.addEventListener('abort', () => {
+			clearTimeout(timer);
+			state.aborted.push(provider);
+			reject(signal.reason);
+		});
+	});
+	if (error) throw error;
+	return [
+		{
+			title: `${provider} answer`,
+			url: `https://${provider}.example.com`,
+			snippet: `${provider} answers ${query}`,
+			source_provider: provider,
+		},
+	];
+};
+
+class FakeAISearch extends UnifiedAISearchProvider {
+	state: FakeState = { answers: {}, called: [], aborted: [] };
+
+	async search(
+		{ query, provider }: UnifiedAISearchParams,
+		signal?: AbortSignal,
+	) {
+		return fake_search(this.state, provider!, query, signal);
+	}
+}
+
+class FakeWebSearch extends UnifiedWebSearchProvider {
+	state: FakeState = { answers: {}, called: [], aborted: [] };
+
+	async search(
+		{ query, provider }: UnifiedWebSearchParams,
+		signal?: AbortSignal,
+	) {
+		return fake_search(this.state, provider!, query, signal);
+	}
+}
+
+const fake_state = (answers: Record<string, FakeAnswer>) => ({
+	answers,
+	called: [],
+	aborted: [],
+});
+
+class FakeGitHubSearch extends UnifiedGitHubSearchProvider {
+	async search() {
+		return [
+			{
+				title: 'owner/repo',
+				url: 'https://github.com/owner/repo',
+				snippet: 'A repository',
+				source_provider: 'github',
+			},
+		];
+	}
+}
+
+class FakeFirecrawlProcess extends UnifiedFirecrawlProvider {
+	async process_content(
+		url: string | string[],
+		_extract_depth?: 'basic' | 'advanced',
+		mode?: FirecrawlMode,
+	): Promise<ProcessingResult> {
+		return {
+			content: `${mode} of ${url}`,
+			metadata: {},
+			source_provider: this.get_mode_provider(mode!),
+		};
+	}
+}
+
+const ai_search = new FakeAISearch();
+register_ai_search_provider(ai_search);
+const web_search = new FakeWebSearch();
+register_web_search_provider(web_search);
+register_github_search_provider(new FakeGitHubSearch());
+register_firecrawl_process_provider(new FakeFirecrawlProcess());
+
+const server = new McpServer(
+	{ name: 'test', version: '0.0.0', description: 'test server' },
+	{
+		adapter: new ValibotJsonSchemaAdapter(),
+		capabilities: { tools: { listChanged: true } },
+	},
+);
+register_tools(server);
+
+let request_id = 0;
+const call_tool_result = async (
+	name: string,
+	args: Record<string, unknown>,
+) => {
+	const response = (await server.receive({
+		jsonrpc: '2.0',
+		id: ++request_id,
+		method: 'tools/call',
+		params: { name, arguments: args },
+	})) as {
+		result: {
+			content: Array<{ text: string }>;
+			isError?: boolean;
+			_meta?: Record<string, unknown>;
+		};
+	};
+	return response.result;
+};
+
+const call_tool = async (
+	name: string,
+	args: Record<string, unknown>,
+) => JSON.parse((await call_tool_result(name, args)).content[0].text);
+
+// Records search calls that take exactly the given time
+const seed_latency = async (provider: string, ms: number) => {
+	vi.useFakeTimers({ toFake: ['performance'] });
+	await with_provider_category('search', () =>
+		with_provider_timeout(provider, 60_000, undefined, async () => {
+			vi.advanceTimersByTime(ms);
+		}),
+	);
+	vi.useRealTimers();
+};
+
+const providers = ['perplexity', 'kagi_fastgpt', 'exa_answer'];
+
+describe('answer', () => {
+	it('waits for every provider by default', async () => {
+		ai_search.state = fake_state({
+			perplexity: { delay_ms: 5 },
+			kagi_fastgpt: { delay_ms: 10 },
+			exa_answer: { delay_ms: 20 },
+		});
+
+		const response = await call_tool('answer', {
+			query: 'wait for all',
+			providers,
+		});
+		expect(response.providers_succeeded).toEqual(providers);
+		expect(response.providers_timed_out).toBeUndefined();
+	});
+
+	it('returns once min_answers providers have answered', async () => {
+		ai_search.state = fake_state({
+			perplexity: { delay_ms: 5 },
+			kagi_fastgpt: { delay_ms: 10 },
+			exa_answer: { delay_ms: 60_000 },
+		});
+
+		const response = await call_tool('answer', {
+			query: 'two answers are enough',
+			providers,
+			min_answers: 2,
+		});
+		expect(response.providers_succeeded).toEqual([
+			'perplexity',
+			'kagi_fastgpt',
+		]);
+		expect(response.providers_timed_out).toEqual(['exa_answer']);
+		expect(ai_search.state.aborted).toEqual(['exa_answer']);
+	});
+
+	it('does not count failures towards min_answers', async () => {
+		ai_search.state = fake_state({
+			perplexity: {
+				delay_ms: 0,
+				error: new ProviderError(
+					ErrorType.API_ERROR,
+					'bad request',
+					'perplexity',
+				),
+			},
+			kagi_fastgpt: { delay_ms: 5 },
+			exa_answer: { delay_ms: 20 },
+		});
+
+		const response = await call_tool('answer', {
+			query: 'failures do not count',
+			providers,
+			min_answers: 2,
+		});
+		expect(response.providers_succeeded).toEqual([
+			'kagi_fastgpt',
+			'exa_answer',
+		]);
+		expect(response.providers_failed).toEqual([
+			{ provider: 'perplexity', error: 'bad request' },
+		]);
+	});
+
+	it('returns the answers received when timeout_ms passes', async () => {
+		ai_search.state = fake_state({
+			perplexity: { delay_ms: 5 },
+			kagi_fastgpt: { delay_ms: 60_000 },
+			exa_answer: { delay_ms: 60_000 },
+		});
+
+		const response = await call_tool('answer', {
+			query: 'answer within the deadline',
+			providers,
+			timeout_ms: 100,
+		});
+		expect(response.providers_succeeded).toEqual(['perplexity']);
+		expect(response.providers_timed_out).toEqual([
+			'kagi_fastgpt',
+			'exa_answer',
+		]);
+		expect(ai_search.state.aborted.sort()).toEqual([
+			'exa_answer',
+			'kagi_fastgpt',
+		]);
+	});
+});
+
+describe('web_search hedging', () => {
+	const default_hedge = { ...hedge_config };
+
+	afterEach(() => {
+		Object.assign(hedge_config, default_hedge);
+	});
+
+	it('queries the fastest providers first and waits their p95', async () => {
+		// p50/p95 of 25/47.5ms, 75/97.5ms and 250/295ms
+		for (let i = 0; i < 5; i++) {
+			await seed_latency('tavily', 40);
+			await seed_latency('brave', 80);
+			await seed_latency('kagi', 300);
+		}
+		web_search.state = fake_state({
+			kagi: { delay_ms: 0 },
+			brave: { delay_ms: 5 },
+			tavily: { delay_ms: 5 },
+		});
+
+		const response = await call_tool('web_search', {
+			query: 'fastest first',
+			providers: ['kagi', 'brave', 'tavily'],
+			hedge: true,
+		});
+		expect(response.hedge).toEqual({
+			primaries: ['tavily', 'brave'],
+			delay_ms: 98,
+			backups_fired: [],
+		});
+		expect(web_search.state.called.sort()).toEqual([
+			'brave',
+			'tavily',
+		]);
+	});
+
+	// Providers without latency history keep their configured order
+	it('fires a backup for a primary that runs past the delay', async () => {
+		hedge_config.default_delay_ms = 30;
+		web_search.state = fake_state({
+			exa: { delay_ms: 60_000 },
+			linkup: { delay_ms: 5 },
+			serpapi: { delay_ms: 5 },
+		});
+
+		const response = await call_tool('web_search', {
+			query: 'slow primary',
+			providers: ['exa', 'linkup', 'serpapi'],
+			hedge: true,
+		});
+		expect(response.hedge).toEqual({
+			primaries: ['exa', 'serpapi'],
+			delay_ms: 30,
+			backups_fired: ['linkup'],
+		});
+		expect(response.providers_succeeded).toEqual([
+			'serpapi',
+			'linkup',
+		]);
+		expect(response.providers_timed_out).toEqual(['exa']);
+		expect(web_search.state.aborted).toEqual(['exa']);
+	});
+
+	it('replaces a failed primary with a backup at once', async () => {
+		hedge_config.default_delay_ms = 60_000;
+		web_search.state = fake_state({
+			exa: {
+				delay_ms: 0,
+				error: new ProviderError(
+					ErrorType.API_ERROR,
+					'bad request',
+					'exa',
+				),
+			},
+			linkup: { delay_ms: 5 },
+			serpapi: { delay_ms: 5 },
+		});
+
+		const response = await call_tool('web_search', {
+			query: 'failed primary',
+			providers: ['exa', 'linkup', 'serpapi'],
+			hedge: true,
+		});
+		expect(response.hedge.backups_fired).toEqual(['linkup']);
+		expect(response.providers_succeeded.sort()).toEqual([
+			'linkup',
+			'serpapi',
+		]);
+	});
+});
+
+describe('github_search', () => {
+	it('returns an array and reports the cache marker in _meta', async () => {
+		const args = { query: 'owner/repo', search_type: 'repositories' };
+
+		const miss = await call_tool_result('github_search', args);
+		expect(JSON.parse(miss.content[0].text)).toEqual([
+			expect.objectContaining({
+				url: 'https://github.com/owner/repo',
+			}),
+		]);
+		expect(miss._meta).toEqual({ cache: 'miss' });
+
+		const hit = await call_tool_result('github_search', args);
+		expect(hit._meta).toEqual({ cache: 'hit' });
+	});
+});
+
+describe('firecrawl_process', () => {
+	const default_rate_limits = structuredClone(rate_limit_config);
+	rate_limit_config.quota_file = join(
+		tmpdir(),
+		`omnisearch-tools-quota-${process.pid}.json`,
+	);
+
+	afterEach(() => {
+		rate_limit_config.daily_quotas = structuredClone(
+			default_rate_limits.daily_quotas,
+		);
+	});
+
+	afterAll(async () => {
+		await rm(rate_limit_config.quota_file, { force: true });
+		rate_limit_config.quota_file = default_rate_limits.quota_file;
+	});
+
+	it('counts quotas against the provider serving the mode', async () => {
+		rate_limit_config.daily_quotas.firecrawl_crawl = 10;
+
+		await call_tool('firecrawl_process', {
+			url: 'https://example.com',
+			mode: 'crawl',
+		});
+		expect(
+			await get_quota_usage('processing', 'firecrawl_crawl'),
+		).toEqual({ day_count: 1, month_count: 1 });
+		expect(
+			await get_quota_usage('processing', 'firecrawl_process'),
+		).toBeUndefined();
+	});
+});
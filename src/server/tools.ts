@@ -1,37 +1,67 @@
 import { McpServer } from 'tmcp';
 import type { GenericSchema } from 'valibot';
 import * as v from 'valibot';
+import { cluster_near_duplicates } from '../common/dedup.js';
+import { with_cache } from '../common/cache.js';
+import {
+	get_open_circuit,
+	with_circuit_breaker,
+} from '../common/circuit_breaker.js';
+import { FUSION_STRATEGIES, fuse_results } from '../common/fusion.js';
+import { get_latency_percentile } from '../common/latency.js';
+import {
+	get_quota_exhaustion,
+	rate_limited,
+} from '../common/rate_limit.js';
+import { fetch_page, paginate_result } from '../common/pagination.js';
+import { with_span } from '../common/tracing.js';
+import {
+	budget_snippets,
+	SNIPPET_MODES,
+} from '../common/snippets.js';
 import {
 	EnhancementProvider,
 	ProcessingProvider,
+	SearchProvider,
 	SearchResult,
 } from '../common/types.js';
 import {
+	canonicalize_url,
 	create_error_response,
+	filter_search_results,
 	handle_large_result,
 	retry_with_backoff,
 } from '../common/utils.js';
 import {
-	config,
+	fusion_config,
+	hedge_config,
+	near_duplicate_config,
 	OMNISEARCH_EXPOSE_ALL_TOOLS,
+	snippet_config,
 } from '../config/env.js';
-import type {
-	ExaProcessMode,
-	UnifiedExaProcessingProvider,
+import { get_unified_entries } from '../providers/manifest.js';
+import {
+	EXA_PROCESS_MODES,
+	type ExaProcessMode,
+	type UnifiedExaProcessingProvider,
 } from '../providers/unified/exa_process.js';
-import type {
-	FirecrawlMode,
-	UnifiedFirecrawlProcessingProvider,
+import {
+	FIRECRAWL_MODES,
+	type FirecrawlMode,
+	type UnifiedFirecrawlProcessingProvider,
 } from '../providers/unified/firecrawl_process.js';
 import type { UnifiedGitHubSearchProvider } from '../providers/unified/github_search.js';
-import type {
-	UnifiedWebSearchProvider,
-	WebSearchProvider,
+import {
+	WEB_SEARCH_PROVIDERS,
+	type UnifiedWebSearchProvider,
+	type WebSearchProvider,
 } from '../providers/unified/web_search.js';
-import type {
-	AISearchProvider,
-	UnifiedAISearchProvider,
+import {
+	AI_SEARCH_PROVIDERS,
+	type AISearchProvider,
+	type UnifiedAISearchProvider,
 } from '../providers/unified/ai_search.js';
+import { get_request_signal } from './cancellation.js';
 
 // Track available providers by category
 export const available_providers = {
@@ -41,11 +71,52 @@ export const available_providers = {
 	enhancement: new Set<string>(),
 };
 
+type SubProvider =
+	| SearchProvider
+	| ProcessingProvider
+	| EnhancementProvider;
+
+// A concrete provider and the tool that serves it
+export interface RegisteredSubProvider {
+	category: string;
+	tool?: string;
+	provider: SubProvider;
+}
+
 interface ProviderTask {
 	name: string;
 	promise: Promise<SearchResult[]>;
 }
 
+interface SkippedProvider {
+	provider: string;
+	skipped_for: 'quota' | 'circuit';
+	reason: string;
+}
+
+// Over-quota and circuit-broken providers are skipped rather than called
+const get_skip = async (
+	category: string,
+	provider: string,
+): Promise<SkippedProvider | undefined> => {
+	const quota = await get_quota_exhaustion(category, provider);
+	if (quota) return { provider, skipped_for: 'quota', reason: quota };
+	const circuit = get_open_circuit(category, provider);
+	if (circuit)
+		return { provider, skipped_for: 'circuit', reason: circuit };
+	return undefined;
+};
+
+// Error text for when every selected provider was skipped
+const describe_all_skipped = (skipped: SkippedProvider[]) => {
+	const summary = skipped.every((p) => p.skipped_for === 'quota')
+		? 'are over their quota'
+		: skipped.every((p) => p.skipped_for === 'circuit')
+			? 'have an open circuit'
+			: 'were skipped';
+	return `All selected providers ${summary}: ${skipped.map((p) => `${p.provider} (${p.reason})`).join(', ')}`;
+};
+
 interface TrackedResult {
 	status: 'fulfilled' | 'rejected';
 	value?: SearchResult[];
@@ -53,25 +124,27 @@ interface TrackedResult {
 	task: ProviderTask;
 }
 
-// Wraps a promise to reject when the AbortSignal fires.
-// Does not cancel the underlying work but stops result accumulation.
-const make_cancellable = <T>(
-	promise: Promise<T>,
-	signal: AbortSignal,
-): Promise<T> =>
-	new Promise<T>((resolve, reject) => {
-		if (signal.aborted) {
-			reject(signal.reason);
-			return;
-		}
-		signal.addEventListener('abort', () => reject(signal.reason), {
-			once: true,
-		});
-		promise.then(resolve, reject);
-	});
-
-// Reciprocal Rank Fusion constant (standard value from literature)
-const RRF_K = 60;
+// Narrows a fan-out list to the caller's providers / exclude_providers selection
+const select_sub_providers = <T extends { name: string }>(
+	sub_providers: T[],
+	providers?: readonly string[],
+	exclude_providers?: readonly string[],
+): T[] =>
+	sub_providers.filter(
+		(sp) =>
+			(!providers?.length || providers.includes(sp.name)) &&
+			!exclude_providers?.includes(sp.name),
+	);
+
+// Shared by every tool that goes through the response cache
+const BYPASS_CACHE_SCHEMA = v.optional(
+	v.pipe(
+		v.boolean(),
+		v.description(
+			'Skip cached responses and call the providers again (the fresh result is still cached)',
+		),
+	),
+);
 
 class ToolRegistry {
 	private web_search_provider?: UnifiedWebSearchProvider;
@@ -125,6 +198,49 @@ class ToolRegistry {
 		available_providers.enhancement.add(provider.name);
 	}
 
+	get_sub_providers(): RegisteredSubProvider[] {
+		const from_tool = (
+			category: string,
+			tool: string | undefined,
+			providers: SubProvider[] = [],
+		) => providers.map((provider) => ({ category, tool, provider }));
+		return [
+			...from_tool(
+				'search',
+				this.web_search_provider?.name,
+				this.web_search_provider?.get_sub_providers(),
+			),
+			...from_tool(
+				'search',
+				this.github_search_provider?.name,
+				this.github_search_provider?.get_sub_providers(),
+			),
+			...from_tool(
+				'ai_response',
+				this.ai_search_provider?.name,
+				this.ai_search_provider?.get_sub_providers(),
+			),
+			...from_tool(
+				'processing',
+				this.firecrawl_process_provider?.name,
+				this.firecrawl_process_provider?.get_sub_providers(),
+			),
+			...from_tool(
+				'processing',
+				this.exa_process_provider?.name,
+				this.exa_process_provider?.get_sub_providers(),
+			),
+			...Array.from(this.processing_providers.values()).flatMap(
+				(provider) =>
+					from_tool('processing', provider.name, [provider]),
+			),
+			...Array.from(this.enhancement_providers.values()).flatMap(
+				(provider) =>
+					from_tool('enhancement', provider.name, [provider]),
+			),
+		];
+	}
+
 	setup_tool_handlers(server: McpServer<GenericSchema>) {
 		// Helper to build a single AI provider's answer entry
 		const build_answer_entry = (
@@ -164,13 +280,135 @@ class ToolRegistry {
 			server.tool(
 				{
 					name: 'web_search',
-					description:
-						'Search the web using ALL configured search providers in parallel (tavily, brave, kagi, exa, firecrawl, perplexity, serpapi, linkup). Returns deduplicated web results ranked via Reciprocal Rank Fusion (RRF). Use the "answer" tool for AI-generated answers.',
+					description: `Search the web using ALL configured search providers in parallel (${WEB_SEARCH_PROVIDERS.join(', ')}). Returns deduplicated web results ranked via rank fusion (weighted Reciprocal Rank Fusion by default; CombSUM, CombMNZ and Borda also available), each with a per-provider rank_breakdown. Domain and date filters are passed to every provider and re-applied to the results, so prefer them over site:/before: operators. Use the "answer" tool for AI-generated answers.`,
 					schema: v.object({
 						query: v.pipe(
 							v.string(),
 							v.description('The search query'),
 						),
+						limit: v.optional(
+							v.pipe(
+								v.number(),
+								v.description(
+									'Maximum results per provider and in the fused list',
+								),
+							),
+						),
+						include_domains: v.optional(
+							v.pipe(
+								v.array(v.string()),
+								v.description(
+									'Only return results from these domains (subdomains included)',
+								),
+							),
+						),
+						exclude_domains: v.optional(
+							v.pipe(
+								v.array(v.string()),
+								v.description(
+									'Never return results from these domains (subdomains included)',
+								),
+							),
+						),
+						date_after: v.optional(
+							v.pipe(
+								v.string(),
+								v.isoDate(),
+								v.description(
+									'Only results published on or after this date (YYYY-MM-DD)',
+								),
+							),
+						),
+						date_before: v.optional(
+							v.pipe(
+								v.string(),
+								v.isoDate(),
+								v.description(
+									'Only results published on or before this date (YYYY-MM-DD)',
+								),
+							),
+						),
+						language: v.optional(
+							v.pipe(
+								v.string(),
+								v.description(
+									'Result language as an ISO 639-1 code (e.g. "en"). Honored by brave, kagi, serpapi and perplexity; tavily, exa, firecrawl and linkup have no language filter and ignore it.',
+								),
+							),
+						),
+						providers: v.optional(
+							v.pipe(
+								v.array(v.picklist(WEB_SEARCH_PROVIDERS)),
+								v.description(
+									'Only query these providers (default: all configured). Use a cheap subset like ["brave","kagi"] for simple lookups.',
+								),
+							),
+						),
+						exclude_providers: v.optional(
+							v.pipe(
+								v.array(v.picklist(WEB_SEARCH_PROVIDERS)),
+								v.description('Skip these providers'),
+							),
+						),
+						fusion: v.optional(
+							v.pipe(
+								v.picklist(FUSION_STRATEGIES),
+								v.description(
+									'How provider rankings are merged: rrf (default), combsum, combmnz or borda',
+								),
+							),
+						),
+						provider_weights: v.optional(
+							v.pipe(
+								v.record(v.string(), v.number()),
+								v.description(
+									'Per-provider fusion weights, e.g. {"kagi": 2, "brave": 1.5}. Unlisted providers weigh 1.',
+								),
+							),
+						),
+						collapse_duplicates: v.optional(
+							v.pipe(
+								v.boolean(),
+								v.description(
+									'Collapse near-duplicate results (syndicated copies, mirrors, paginated variants) into one hit with an also_at list of alternate URLs',
+								),
+							),
+						),
+						snippet_mode: v.optional(
+							v.pipe(
+								v.picklist(SNIPPET_MODES),
+								v.description(
+									"merged (default): all providers' snippets with overlapping sentences removed; best: only the snippet that best matches the query",
+								),
+							),
+						),
+						max_snippet_chars: v.optional(
+							v.pipe(
+								v.number(),
+								v.minValue(1),
+								v.description(
+									'Snippet character budget per result (default 1000)',
+								),
+							),
+						),
+						max_total_snippet_chars: v.optional(
+							v.pipe(
+								v.number(),
+								v.minValue(1),
+								v.description(
+									'Snippet character budget for the whole response (default 20000); lower-ranked results lose snippets first',
+								),
+							),
+						),
+						hedge: v.optional(
+							v.pipe(
+								v.boolean(),
+								v.description(
+									'Query only the historically fastest providers first and fire the others as backups if those run past their usual latency. Cuts tail latency and API usage at the cost of fewer fused sources.',
+								),
+							),
+						),
+						bypass_cache: BYPASS_CACHE_SCHEMA,
 						timeout_ms: v.optional(
 							v.pipe(
 								v.nullable(v.number()),
@@ -181,11 +419,53 @@ class ToolRegistry {
 						),
 					}),
 				},
-				async ({ query, timeout_ms }) => {
+				async ({
+					query,
+					timeout_ms,
+					limit,
+					include_domains,
+					exclude_domains,
+					date_after,
+					date_before,
+					language,
+					providers,
+					exclude_providers,
+					fusion,
+					provider_weights,
+					collapse_duplicates,
+					bypass_cache,
+					snippet_mode,
+					max_snippet_chars,
+					max_total_snippet_chars,
+					hedge,
+				}) => {
 					try {
 						const tasks: ProviderTask[] = [];
 						const abort_controller = new AbortController();
+						// A client cancellation aborts the providers like a timeout
+						const request_signal = get_request_signal();
+						request_signal?.addEventListener(
+							'abort',
+							() => abort_controller.abort(request_signal.reason),
+							{ once: true },
+						);
 						let terminated = false;
+						const providers_cached: string[] = [];
+						const providers_skipped: SkippedProvider[] = [];
+						// Retries that would land after timeout_ms are skipped
+						const deadline =
+							timeout_ms && timeout_ms > 0
+								? Date.now() + timeout_ms
+								: undefined;
+						const search_params = {
+							query,
+							limit,
+							include_domains,
+							exclude_domains,
+							date_after,
+							date_before,
+							language,
+						};
 
 						const safe_progress = (
 							current: number,
@@ -196,83 +476,130 @@ class ToolRegistry {
 								server.progress(current, total, message);
 						};
 
-						const web_sub_providers = [
-							{
-								name: 'tavily',
-								key: config.search.tavily.api_key,
-							},
-							{
-								name: 'brave',
-								key: config.search.brave.api_key,
-							},
-							{
-								name: 'kagi',
-								key: config.search.kagi.api_key,
-							},
-							{
-								name: 'exa',
-								key: config.search.exa.api_key,
-							},
-							{
-								name: 'firecrawl',
-								key: config.search.firecrawl.api_key,
-							},
-							{
-								name: 'perplexity',
-								key: config.search.perplexity.api_key,
-							},
-							{
-								name: 'serpapi',
-								key: config.search.serpapi.api_key,
-							},
-							{
-								name: 'linkup',
-								key: config.search.linkup.api_key,
-							},
-						];
-
-						for (const wp of web_sub_providers) {
+						const web_sub_providers = get_unified_entries(
+							'web_search',
+						).map(({ name, config }) => ({
+							name,
+							key: config.api_key,
+						}));
+
+						// Provider calls start lazily so hedging can hold back backups
+						const candidates: Array<{
+							name: string;
+							start: () => Promise<SearchResult[]>;
+						}> = [];
+						for (const wp of select_sub_providers(
+							web_sub_providers,
+							providers,
+							exclude_providers,
+						)) {
 							if (wp.key && wp.key.trim() !== '') {
-								tasks.push({
+								const skip = await get_skip('search', wp.name);
+								if (skip) {
+									providers_skipped.push(skip);
+									continue;
+								}
+								candidates.push({
 									name: wp.name,
-									promise: make_cancellable(
-										retry_with_backoff(
-											() =>
-												web_ref.search({
-													query,
-													provider: wp.name as WebSearchProvider,
+									// Aborting on timeout cancels the upstream requests
+									// (a coalesced call only once no caller waits on it)
+									start: () =>
+										with_span(
+											'provider search',
+											{ 'omnisearch.provider': wp.name },
+											(span) =>
+												with_cache(
+													'search',
+													wp.name,
+													'search',
+													search_params,
+													(signal) =>
+														with_circuit_breaker(
+															'search',
+															wp.name,
+															() =>
+																rate_limited(
+																	'search',
+																	wp.name,
+																	() =>
+																		retry_with_backoff(
+																			() =>
+																				web_ref.search(
+																					{
+																						...search_params,
+																						provider:
+																							wp.name as WebSearchProvider,
+																					},
+																					signal,
+																				),
+																			1,
+																			500,
+																			{
+																				deadline,
+																				provider: wp.name,
+																				signal,
+																			},
+																		),
+																	{ deadline, signal },
+																),
+															signal,
+														),
+													bypass_cache,
+													abort_controller.signal,
+												).then(({ value, cache }) => {
+													if (cache === 'hit')
+														providers_cached.push(wp.name);
+													span.setAttributes({
+														'omnisearch.result_count': value.length,
+														'omnisearch.cache': cache,
+													});
+													return value;
 												}),
-											1,
-											500,
 										),
-										abort_controller.signal,
-									),
 								});
 							}
 						}
 
-						if (tasks.length === 0) {
+						if (candidates.length === 0) {
 							return {
 								content: [
 									{
 										type: 'text' as const,
-										text: 'No providers configured. Set API keys for at least one search or AI provider.',
+										text: providers_skipped.length
+											? describe_all_skipped(providers_skipped)
+											: providers?.length || exclude_providers?.length
+												? 'No configured search providers match the providers/exclude_providers selection.'
+												: 'No providers configured. Set API keys for at least one search or AI provider.',
 									},
 								],
 								isError: true,
 							};
 						}
 
-						const total_count = tasks.length;
+						// Hedging: query the historically fastest providers first
+						// and keep the rest as backups. Providers without latency
+						// history keep their configured order after the known ones.
+						const use_hedge =
+							!!hedge && candidates.length > hedge_config.primaries;
+						if (use_hedge) {
+							const median = (name: string) =>
+								get_latency_percentile('search', name, 0.5) ??
+								Infinity;
+							candidates.sort(
+								(a, b) => median(a.name) - median(b.name),
+							);
+						}
+						const primaries = use_hedge
+							? candidates.slice(0, hedge_config.primaries)
+							: candidates;
+						const backups = use_hedge
+							? candidates.slice(hedge_config.primaries)
+							: [];
+						const backups_fired: string[] = [];
+
 						let completed_count = 0;
 						const completed_names: string[] = [];
 
-						safe_progress(
-							0,
-							total_count,
-							`Querying ${total_count} providers: ${tasks.map((t) => t.name).join(', ')}`,
-						);
-
 						// Accumulators — results grouped by provider for RRF
 						const results_by_provider = new Map<
 							string,
@@ -284,57 +611,116 @@ class ToolRegistry {
 							error: string;
 						}> = [];
 
-						const tracked_promises: Promise<TrackedResult>[] =
-							tasks.map((task) =>
-								task.promise.then(
-									(value) => {
-										completed_count++;
-										completed_names.push(task.name);
-										providers_succeeded.push(task.name);
-										results_by_provider.set(task.name, value);
-										safe_progress(
-											completed_count,
-											total_count,
-											JSON.stringify({
-												event: 'provider_done',
-												provider: task.name,
-												result_count: value.length,
-											}),
-										);
-										return {
-											status: 'fulfilled' as const,
-											value,
-											task,
-										};
-									},
-									(reason) => {
-										completed_count++;
-										completed_names.push(task.name);
-										const error_msg =
-											reason instanceof Error
-												? reason.message
-												: String(reason);
-										providers_failed.push({
+						// Resolves with the final progress event once no more
+						// results are needed
+						let finish: (event: string) => void = () => {};
+						const finished = new Promise<string>((resolve) => {
+							finish = resolve;
+						});
+
+						const launch_backup = () => {
+							const backup = backups.shift();
+							if (!backup || terminated) return;
+							backups_fired.push(backup.name);
+							launch(backup);
+						};
+
+						const check_finished = () => {
+							if (
+								use_hedge &&
+								providers_succeeded.length >= primaries.length
+							) {
+								finish('hedge_satisfied');
+							} else if (completed_count === tasks.length) {
+								if (backups.length) launch_backup();
+								else finish('all_done');
+							}
+						};
+
+						const launch = (
+							candidate: (typeof candidates)[number],
+						) => {
+							const task: ProviderTask = {
+								name: candidate.name,
+								promise: candidate.start(),
+							};
+							tasks.push(task);
+							task.promise.then(
+								(value) => {
+									completed_count++;
+									completed_names.push(task.name);
+									providers_succeeded.push(task.name);
+									results_by_provider.set(task.name, value);
+									safe_progress(
+										completed_count,
+										tasks.length,
+										JSON.stringify({
+											event: 'provider_done',
+											provider: task.name,
+											result_count: value.length,
+										}),
+									);
+									check_finished();
+								},
+								(reason) => {
+									completed_count++;
+									completed_names.push(task.name);
+									const error_msg =
+										reason instanceof Error
+											? reason.message
+											: String(reason);
+									providers_failed.push({
+										provider: task.name,
+										error: error_msg,
+									});
+									safe_progress(
+										completed_count,
+										tasks.length,
+										JSON.stringify({
+											event: 'provider_failed',
 											provider: task.name,
 											error: error_msg,
-										});
-										safe_progress(
-											completed_count,
-											total_count,
-											JSON.stringify({
-												event: 'provider_failed',
-												provider: task.name,
-												error: error_msg,
-											}),
-										);
-										return {
-											status: 'rejected' as const,
-											reason,
-											task,
-										};
-									},
-								),
+										}),
+									);
+									// A failed primary is replaced by the next backup
+									if (use_hedge) launch_backup();
+									check_finished();
+								},
 							);
+						};
+
+						safe_progress(
+							0,
+							primaries.length,
+							`Querying ${primaries.length} providers: ${primaries.map((c) => c.name).join(', ')}${backups.length ? ` (backups: ${backups.map((c) => c.name).join(', ')})` : ''}`,
+						);
+						primaries.forEach(launch);
+
+						// Fire one backup per primary still running once the
+						// primaries pass their usual latency
+						const hedge_delay_ms = use_hedge
+							? Math.round(
+									Math.max(
+										...primaries.map(
+											(c) =>
+												get_latency_percentile(
+													'search',
+													c.name,
+													hedge_config.percentile,
+												) ?? hedge_config.default_delay_ms,
+										),
+									),
+								)
+							: undefined;
+						const hedge_timer =
+							hedge_delay_ms !== undefined
+								? setTimeout(() => {
+										const pending = primaries.filter(
+											(c) => !completed_names.includes(c.name),
+										).length;
+										for (let i = 0; i < pending; i++) launch_backup();
+									}, hedge_delay_ms)
+								: undefined;
 
 						const progress_interval = setInterval(() => {
 							const pending_names = tasks
@@ -343,7 +729,7 @@ class ToolRegistry {
 							if (pending_names.length > 0) {
 								safe_progress(
 									completed_count,
-									total_count,
+									tasks.length,
 									JSON.stringify({
 										event: 'waiting',
 										done: completed_names,
@@ -353,51 +739,54 @@ class ToolRegistry {
 							}
 						}, 5_000);
 
-						// Wait for all providers, or until timeout if set
+						// Wait until done (or hedged), or until timeout if set
 						const effective_timeout =
 							timeout_ms && timeout_ms > 0 ? timeout_ms : null;
-						const all_done_promise = Promise.all(tracked_promises);
 						let timeout_id: ReturnType<typeof setTimeout> | undefined;
+						let finish_event: string;
 
 						try {
+							const waits = [finished];
 							if (effective_timeout) {
-								const timeout_promise = new Promise<'timeout'>(
-									(resolve) => {
+								waits.push(
+									new Promise<string>((resolve) => {
 										timeout_id = setTimeout(
 											() => resolve('timeout'),
 											effective_timeout,
 										);
-									},
+									}),
 								);
-								const race_result = await Promise.race([
-									all_done_promise.then(() => 'done' as const),
-									timeout_promise,
-								]);
-								if (race_result === 'timeout') {
-									abort_controller.abort(new Error('Search timeout'));
-								}
-							} else {
-								await all_done_promise;
 							}
+							finish_event = await Promise.race(waits);
 						} finally {
 							if (timeout_id) clearTimeout(timeout_id);
+							if (hedge_timer) clearTimeout(hedge_timer);
 							clearInterval(progress_interval);
 							terminated = true;
 						}
+						request_signal?.throwIfAborted();
 
-						// Identify providers that haven't finished yet
+						// Identify providers that haven't finished yet and stop them
 						const providers_timed_out = tasks
 							.filter((t) => !completed_names.includes(t.name))
 							.map((t) => t.name);
+						if (providers_timed_out.length) {
+							abort_controller.abort(
+								new DOMException(
+									finish_event === 'timeout'
+										? 'Search timeout'
+										: 'Hedged request no longer needed',
+									'AbortError',
+								),
+							);
+						}
 
 						// Final progress (sent directly since terminated is now true)
 						server.progress(
 							completed_count,
-							total_count,
+							tasks.length,
 							JSON.stringify({
-								event: providers_timed_out.length
-									? 'timeout'
-									: 'all_done',
+								event: finish_event,
 								...(providers_timed_out.length
 									? {
 											timed_out: providers_timed_out,
@@ -406,66 +795,80 @@ class ToolRegistry {
 							}),
 						);
 
-						// --- Reciprocal Rank Fusion (RRF) ---
-						// Rank results within each provider by score, then compute
-						// RRF score = sum(1 / (k + rank)) across all providers that returned the URL.
-						// This normalizes heterogeneous score scales across providers.
-						const rrf_scores = new Map<string, number>();
-						const url_data = new Map<
+						// Re-apply domain/date filters for providers that can't
+						// filter natively (e.g. SerpAPI google_light)
+						const filtered_by_provider = new Map<
 							string,
-							{
-								title: string;
-								url: string;
-								snippets: string[];
-								source_providers: string[];
-							}
+							SearchResult[]
 						>();
-
 						for (const [
 							provider_name,
-							results,
+							provider_results,
 						] of results_by_provider) {
-							const ranked = [...results].sort(
-								(a, b) => (b.score ?? 0) - (a.score ?? 0),
+							filtered_by_provider.set(
+								provider_name,
+								filter_search_results(provider_results, {
+									include_domains,
+									exclude_domains,
+									date_after,
+									date_before,
+								}),
 							);
-							for (let rank = 0; rank < ranked.length; rank++) {
-								const result = ranked[rank];
-								const contribution = 1 / (RRF_K + rank + 1);
-								rrf_scores.set(
-									result.url,
-									(rrf_scores.get(result.url) ?? 0) + contribution,
-								);
-
-								const existing = url_data.get(result.url);
-								if (!existing) {
-									url_data.set(result.url, {
-										title: result.title,
-										url: result.url,
-										snippets: result.snippet ? [result.snippet] : [],
-										source_providers: [provider_name],
-									});
-								} else {
-									if (
-										!existing.source_providers.includes(provider_name)
-									) {
-										existing.source_providers.push(provider_name);
-									}
-									if (
-										result.snippet &&
-										!existing.snippets.includes(result.snippet)
-									) {
-										existing.snippets.push(result.snippet);
-									}
-								}
-							}
 						}
 
-						const deduped_web_results = Array.from(url_data.values())
-							.map((d) => ({
-								...d,
-								score: rrf_scores.get(d.url) ?? 0,
-							}))
-							.sort((a, b) => b.score - a.score);
+						// Fuse per-provider rankings into one list; per-call
+						// weights override the configured defaults
+						const fusion_strategy = fusion ?? fusion_config.strategy;
+						const fused_results = await with_span(
+							'fusion',
+							{
+								'omnisearch.fusion': fusion_strategy,
+								'omnisearch.provider_count':
+									filtered_by_provider.size,
+							},
+							async (span) => {
+								const fused = fuse_results(filtered_by_provider, {
+									strategy: fusion_strategy,
+									weights: {
+										...fusion_config.weights,
+										...provider_weights,
+									},
+									rrf_k: fusion_config.rrf_k,
+									key: (url) => canonicalize_url(url),
+								});
+								span.setAttribute(
+									'omnisearch.result_count',
+									fused.length,
+								);
+								return fused;
+							},
+						);
+
+						// Optionally fold syndicated copies/mirrors into one hit
+						const deduped_web_results = (
+							(collapse_duplicates ?? near_duplicate_config.enabled)
+								? cluster_near_duplicates(
+										fused_results,
+										near_duplicate_config.max_distance,
+									)
+								: fused_results
+						).slice(0, limit && limit > 0 ? limit : undefined);
+
+						// Keep response size predictable regardless of how many
+						// providers contributed snippets
+						const budgeted_web_results = budget_snippets(
+							deduped_web_results,
+							query,
+							{
+								mode: snippet_mode ?? snippet_config.mode,
+								max_chars_per_result:
+									max_snippet_chars ??
+									snippet_config.max_chars_per_result,
+								max_chars_total:
+									max_total_snippet_chars ??
+									snippet_config.max_chars_total,
+							},
+						);
 
 						const response: Record<string, unknown> = {
 							query,
@@ -475,11 +878,31 @@ class ToolRegistry {
 							...(providers_timed_out.length
 								? { providers_timed_out }
 								: {}),
-							web_results: deduped_web_results,
+							...(providers_skipped.length
+								? { providers_skipped }
+								: {}),
+							fusion: fusion_strategy,
+							cache:
+								providers_cached.length === tasks.length
+									? 'hit'
+									: 'miss',
+							...(providers_cached.length
+								? { providers_cached }
+								: {}),
+							...(use_hedge
+								? {
+										hedge: {
+											primaries: primaries.map((c) => c.name),
+											delay_ms: hedge_delay_ms,
+											backups_fired,
+										},
+									}
+								: {}),
+							web_results: budgeted_web_results,
 						};
 
 						const safe_result = handle_large_result(
-							response,
+							paginate_result(response, 'web_search'),
 							'web_search',
 						);
 						return {
@@ -533,22 +956,37 @@ class ToolRegistry {
 								v.description('Sort order (repositories only)'),
 							),
 						),
+						bypass_cache: BYPASS_CACHE_SCHEMA,
 					}),
 				},
-				async ({ query, search_type, limit, sort }) => {
+				async ({ query, search_type, limit, sort, bypass_cache }) => {
 					try {
-						const results = await this.github_search_provider!.search(
-							{
-								query,
-								search_type,
-								limit,
-								sort,
-							},
+						const params = { query, search_type, limit, sort };
+						const { value: results, cache } = await with_cache(
+							'search',
+							'github',
+							'search',
+							params,
+							(signal) =>
+								rate_limited(
+									'search',
+									'github',
+									() =>
+										this.github_search_provider!.search(
+											params,
+											signal,
+										),
+									{ signal },
+								),
+							bypass_cache,
+							get_request_signal(),
 						);
 						const safe_results = handle_large_result(
 							results,
 							'github_search',
 						);
+						// The cache marker goes in _meta so the results stay
+						// a plain array
 						return {
 							content: [
 								{
@@ -556,6 +994,7 @@ class ToolRegistry {
 									text: JSON.stringify(safe_results, null, 2),
 								},
 							],
+							_meta: { cache },
 						};
 					} catch (error) {
 						const error_response = create_error_response(
@@ -590,13 +1029,7 @@ class ToolRegistry {
 							v.description('URL(s)'),
 						),
 						mode: v.pipe(
-							v.picklist([
-								'scrape',
-								'crawl',
-								'map',
-								'extract',
-								'actions',
-							]),
+							v.picklist(FIRECRAWL_MODES),
 							v.description('Processing mode'),
 						),
 						extract_depth: v.optional(
@@ -605,18 +1038,41 @@ class ToolRegistry {
 								v.description('Extraction depth'),
 							),
 						),
+						bypass_cache: BYPASS_CACHE_SCHEMA,
 					}),
 				},
-				async ({ url, mode, extract_depth }) => {
+				async ({ url, mode, extract_depth, bypass_cache }) => {
 					try {
-						const result =
-							await this.firecrawl_process_provider!.process_content(
-								url,
-								extract_depth,
+						const provider =
+							this.firecrawl_process_provider!.get_mode_provider(
 								mode as FirecrawlMode,
 							);
+						const { value: result, cache } = await with_cache(
+							'processing',
+							provider,
+							mode,
+							{ url, extract_depth },
+							(signal) =>
+								rate_limited(
+									'processing',
+									provider,
+									() =>
+										this.firecrawl_process_provider!.process_content(
+											url,
+											extract_depth,
+											mode as FirecrawlMode,
+											signal,
+										),
+									{ signal },
+								),
+							bypass_cache,
+							get_request_signal(),
+						);
 						const safe_result = handle_large_result(
-							result,
+							paginate_result(
+								{ ...result, cache },
+								'firecrawl_process',
+							),
 							'firecrawl_process',
 						);
 						return {
@@ -657,7 +1113,7 @@ class ToolRegistry {
 							v.description('URL(s)'),
 						),
 						mode: v.pipe(
-							v.picklist(['contents', 'similar']),
+							v.picklist(EXA_PROCESS_MODES),
 							v.description('Processing mode'),
 						),
 						extract_depth: v.optional(
@@ -666,18 +1122,38 @@ class ToolRegistry {
 								v.description('Extraction depth'),
 							),
 						),
+						bypass_cache: BYPASS_CACHE_SCHEMA,
 					}),
 				},
-				async ({ url, mode, extract_depth }) => {
+				async ({ url, mode, extract_depth, bypass_cache }) => {
 					try {
-						const result =
-							await this.exa_process_provider!.process_content(
-								url,
-								extract_depth,
+						const provider =
+							this.exa_process_provider!.get_mode_provider(
 								mode as ExaProcessMode,
 							);
+						const { value: result, cache } = await with_cache(
+							'processing',
+							provider,
+							mode,
+							{ url, extract_depth },
+							(signal) =>
+								rate_limited(
+									'processing',
+									provider,
+									() =>
+										this.exa_process_provider!.process_content(
+											url,
+											extract_depth,
+											mode as ExaProcessMode,
+											signal,
+										),
+									{ signal },
+								),
+							bypass_cache,
+							get_request_signal(),
+						);
 						const safe_result = handle_large_result(
-							result,
+							paginate_result({ ...result, cache }, 'exa_process'),
 							'exa_process',
 						);
 						return {
@@ -706,7 +1182,7 @@ class ToolRegistry {
 			);
 		}
 
-		// Register remaining processing providers (kagi_summarizer, tavily_extract)
+		// Register standalone processing providers
 		if (OMNISEARCH_EXPOSE_ALL_TOOLS) {
 			this.processing_providers.forEach((provider) => {
 				server.tool(
@@ -724,16 +1200,33 @@ class ToolRegistry {
 									v.description('Extraction depth'),
 								),
 							),
+							bypass_cache: BYPASS_CACHE_SCHEMA,
 						}),
 					},
-					async ({ url, extract_depth }) => {
+					async ({ url, extract_depth, bypass_cache }) => {
 						try {
-							const result = await provider.process_content(
-								url,
-								extract_depth,
+							const { value: result, cache } = await with_cache(
+								'processing',
+								provider.name,
+								'process_content',
+								{ url, extract_depth },
+								(signal) =>
+									rate_limited(
+										'processing',
+										provider.name,
+										() =>
+											provider.process_content(
+												url,
+												extract_depth,
+												signal,
+											),
+										{ signal },
+									),
+								bypass_cache,
+								get_request_signal(),
 							);
 							const safe_result = handle_large_result(
-								result,
+								{ ...result, cache },
 								provider.name,
 							);
 							return {
@@ -772,13 +1265,28 @@ class ToolRegistry {
 						description: provider.description,
 						schema: v.object({
 							content: v.pipe(v.string(), v.description('Content')),
+							bypass_cache: BYPASS_CACHE_SCHEMA,
 						}),
 					},
-					async ({ content }) => {
+					async ({ content, bypass_cache }) => {
 						try {
-							const result = await provider.enhance_content(content);
+							const { value: result, cache } = await with_cache(
+								'enhancement',
+								provider.name,
+								'enhance_content',
+								{ content },
+								(signal) =>
+									rate_limited(
+										'enhancement',
+										provider.name,
+										() => provider.enhance_content(content, signal),
+										{ signal },
+									),
+								bypass_cache,
+								get_request_signal(),
+							);
 							const safe_result = handle_large_result(
-								result,
+								{ ...result, cache },
 								provider.name,
 							);
 							return {
@@ -822,59 +1330,150 @@ class ToolRegistry {
 							v.string(),
 							v.description('The question or search query to answer'),
 						),
+						providers: v.optional(
+							v.pipe(
+								v.array(v.picklist(AI_SEARCH_PROVIDERS)),
+								v.description(
+									'Only query these AI providers (default: all configured). Pick fast engines like ["kagi_fastgpt","exa_answer"] for trivial lookups.',
+								),
+							),
+						),
+						exclude_providers: v.optional(
+							v.pipe(
+								v.array(v.picklist(AI_SEARCH_PROVIDERS)),
+								v.description('Skip these AI providers'),
+							),
+						),
+						bypass_cache: BYPASS_CACHE_SCHEMA,
+						timeout_ms: v.optional(
+							v.pipe(
+								v.nullable(v.number()),
+								v.description(
+									'Return the answers received so far after this many milliseconds; providers still running are listed in providers_timed_out. Omit to wait for every provider.',
+								),
+							),
+						),
+						min_answers: v.optional(
+							v.pipe(
+								v.number(),
+								// minValue before integer: JSON Schema conversion
+								// only accepts it on type number
+								v.minValue(1),
+								v.integer(),
+								v.description(
+									'Return as soon as this many providers have answered (failures do not count); the rest are listed in providers_timed_out.',
+								),
+							),
+						),
 					}),
 				},
-				async ({ query }) => {
+				async ({
+					query,
+					providers,
+					exclude_providers,
+					bypass_cache,
+					timeout_ms,
+					min_answers,
+				}) => {
 					try {
 						const tasks: ProviderTask[] = [];
+						const providers_cached: string[] = [];
+						const providers_skipped: SkippedProvider[] = [];
+						const abort_controller = new AbortController();
+						// A client cancellation aborts the providers like a timeout
+						const request_signal = get_request_signal();
+						request_signal?.addEventListener(
+							'abort',
+							() => abort_controller.abort(request_signal.reason),
+							{ once: true },
+						);
+						let terminated = false;
+						// Retries that would land after timeout_ms are skipped
+						const deadline =
+							timeout_ms && timeout_ms > 0
+								? Date.now() + timeout_ms
+								: undefined;
 
-						const ai_sub_providers = [
-							{
-								name: 'perplexity',
-								key: config.ai_response.perplexity.api_key,
-							},
-							{
-								name: 'kagi_fastgpt',
-								key: config.ai_response.kagi_fastgpt.api_key,
-							},
-							{
-								name: 'exa_answer',
-								key: config.ai_response.exa_answer.api_key,
-							},
-							{
-								name: 'brave_answer',
-								key: config.ai_response.brave_answer.api_key,
-							},
-							{
-								name: 'tavily_answer',
-								key: config.ai_response.tavily_answer.api_key,
-							},
-							{
-								name: 'you_search',
-								key: config.ai_response.you_search.api_key,
-							},
-							{
-								name: 'serpapi_answer',
-								key: config.ai_response.serpapi_answer.api_key,
-							},
-							{
-								name: 'gemini',
-								key: config.ai_response.gemini.api_key,
-							},
-						];
+						const safe_progress = (
+							current: number,
+							total: number,
+							message: string,
+						) => {
+							if (!terminated)
+								server.progress(current, total, message);
+						};
 
-						for (const ap of ai_sub_providers) {
+						const ai_sub_providers = get_unified_entries(
+							'ai_search',
+						).map(({ name, config }) => ({
+							name,
+							key: config.api_key,
+						}));
+
+						for (const ap of select_sub_providers(
+							ai_sub_providers,
+							providers,
+							exclude_providers,
+						)) {
 							if (ap.key && ap.key.trim() !== '') {
+								const skip = await get_skip('ai_response', ap.name);
+								if (skip) {
+									providers_skipped.push(skip);
+									continue;
+								}
 								tasks.push({
 									name: ap.name,
-									promise: retry_with_backoff(
-										() =>
-											ai_search_ref.search({
-												query,
-												provider: ap.name as AISearchProvider,
+									promise: with_span(
+										'provider answer',
+										{ 'omnisearch.provider': ap.name },
+										(span) =>
+											with_cache(
+												'ai_response',
+												ap.name,
+												'search',
+												{ query },
+												(signal) =>
+													with_circuit_breaker(
+														'ai_response',
+														ap.name,
+														() =>
+															rate_limited(
+																'ai_response',
+																ap.name,
+																() =>
+																	retry_with_backoff(
+																		() =>
+																			ai_search_ref.search(
+																				{
+																					query,
+																					provider:
+																						ap.name as AISearchProvider,
+																				},
+																				signal,
+																			),
+																		1,
+																		500,
+																		{
+																			deadline,
+																			provider: ap.name,
+																			signal,
+																		},
+																	),
+																{ deadline, signal },
+															),
+														signal,
+													),
+												bypass_cache,
+												abort_controller.signal,
+											).then(({ value, cache }) => {
+												if (cache === 'hit')
+													providers_cached.push(ap.name);
+												span.setAttributes({
+													'omnisearch.result_count': value.length,
+													'omnisearch.cache': cache,
+												});
+												return value;
 											}),
-										1,
-										500,
 									),
 								});
 							}
@@ -885,7 +1484,11 @@ class ToolRegistry {
 								content: [
 									{
 										type: 'text' as const,
-										text: 'No AI providers configured. Set API keys for at least one AI response provider (PERPLEXITY_API_KEY, EXA_API_KEY, BRAVE_ANSWER_API_KEY, TAVILY_API_KEY).',
+										text: providers_skipped.length
+											? describe_all_skipped(providers_skipped)
+											: providers?.length || exclude_providers?.length
+												? 'No configured AI providers match the providers/exclude_providers selection.'
+												: 'No AI providers configured. Set API keys for at least one AI response provider (PERPLEXITY_API_KEY, EXA_API_KEY, BRAVE_ANSWER_API_KEY, TAVILY_API_KEY).',
 									},
 								],
 								isError: true,
@@ -896,7 +1499,7 @@ class ToolRegistry {
 						let completed_count = 0;
 						const completed_names: string[] = [];
 
-						server.progress(
+						safe_progress(
 							0,
 							total_count,
 							`Querying ${total_count} providers: ${tasks.map((t) => t.name).join(', ')}`,
@@ -916,6 +1519,12 @@ class ToolRegistry {
 							error: string;
 						}> = [];
 
+						// Resolves once min_answers providers have answered
+						let resolve_enough: () => void = () => {};
+						const enough_answers = new Promise<void>((resolve) => {
+							resolve_enough = resolve;
+						});
+
 						// Stream partial results: send each provider's answer via progress as it completes
 						const tracked_promises: Promise<TrackedResult>[] =
 							tasks.map((task) =>
@@ -928,7 +1537,13 @@ class ToolRegistry {
 											value,
 										);
 										answers.push(entry);
-										server.progress(
+										if (
+											min_answers &&
+											answers.length >= min_answers
+										) {
+											resolve_enough();
+										}
+										safe_progress(
 											completed_count,
 											total_count,
 											JSON.stringify({
@@ -953,7 +1568,7 @@ class ToolRegistry {
 											provider: task.name,
 											error: error_msg,
 										});
-										server.progress(
+										safe_progress(
 											completed_count,
 											total_count,
 											JSON.stringify({
@@ -976,7 +1591,7 @@ class ToolRegistry {
 								.filter((t) => !completed_names.includes(t.name))
 								.map((t) => t.name);
 							if (pending_names.length > 0) {
-								server.progress(
+								safe_progress(
 									completed_count,
 									total_count,
 									JSON.stringify({
@@ -988,16 +1603,64 @@ class ToolRegistry {
 							}
 						}, 5_000);
 
+						// Wait for all providers, the deadline or enough answers,
+						// whichever comes first
+						const effective_timeout =
+							timeout_ms && timeout_ms > 0 ? timeout_ms : null;
+						let timeout_id: ReturnType<typeof setTimeout> | undefined;
+						let finish_event: string;
+
 						try {
-							await Promise.all(tracked_promises);
+							const waits: Promise<string>[] = [
+								Promise.all(tracked_promises).then(() => 'all_done'),
+							];
+							if (effective_timeout) {
+								waits.push(
+									new Promise<string>((resolve) => {
+										timeout_id = setTimeout(
+											() => resolve('timeout'),
+											effective_timeout,
+										);
+									}),
+								);
+							}
+							if (min_answers) {
+								waits.push(
+									enough_answers.then(() => 'enough_answers'),
+								);
+							}
+							finish_event = await Promise.race(waits);
 						} finally {
+							if (timeout_id) clearTimeout(timeout_id);
 							clearInterval(progress_interval);
+							terminated = true;
 						}
+						request_signal?.throwIfAborted();
+
+						// Providers still running are no longer needed
+						const providers_timed_out = tasks
+							.filter((t) => !completed_names.includes(t.name))
+							.map((t) => t.name);
+						if (providers_timed_out.length) {
+							abort_controller.abort(
+								new DOMException(
+									finish_event === 'timeout'
+										? 'Answer timeout'
+										: 'Enough answers received',
+									'AbortError',
+								),
+							);
+						}
+
+						// Final progress (sent directly since terminated is now true)
 						server.progress(
-							total_count,
+							completed_count,
 							total_count,
 							JSON.stringify({
-								event: 'all_done',
+								event: finish_event,
+								...(providers_timed_out.length
+									? { timed_out: providers_timed_out }
+									: {}),
 							}),
 						);
 
@@ -1006,6 +1669,19 @@ class ToolRegistry {
 							providers_queried: tasks.map((t) => t.name),
 							providers_succeeded: answers.map((a) => a.source),
 							providers_failed: failed,
+							...(providers_timed_out.length
+								? { providers_timed_out }
+								: {}),
+							...(providers_skipped.length
+								? { providers_skipped }
+								: {}),
+							cache:
+								providers_cached.length === tasks.length
+									? 'hit'
+									: 'miss',
+							...(providers_cached.length
+								? { providers_cached }
+								: {}),
 							answers,
 						};
 
@@ -1039,6 +1715,58 @@ class ToolRegistry {
 			);
 		}
 
+		// Register fetch_more for tools whose results can be paginated
+		if (
+			this.web_search_provider ||
+			this.firecrawl_process_provider ||
+			this.exa_process_provider
+		) {
+			server.tool(
+				{
+					name: 'fetch_more',
+					description:
+						'Fetch the next page of a paginated web_search, firecrawl_process or exa_process result. Pass the pagination.next_cursor from the previous page. Cursors expire after a while; re-run the original call if one has expired.',
+					schema: v.object({
+						cursor: v.pipe(
+							v.string(),
+							v.description(
+								'pagination.next_cursor from the previous page',
+							),
+						),
+					}),
+				},
+				async ({ cursor }) => {
+					try {
+						const page = fetch_page(cursor);
+						const safe_result = handle_large_result(
+							page,
+							'fetch_more',
+						);
+						return {
+							content: [
+								{
+									type: 'text' as const,
+									text: JSON.stringify(safe_result, null, 2),
+								},
+							],
+						};
+					} catch (error) {
+						const error_response = create_error_response(
+							error as Error,
+						);
+						return {
+							content: [
+								{
+									type: 'text' as const,
+									text: error_response.error,
+								},
+							],
+							isError: true,
+						};
+					}
+				},
+			);
+		}
 	}
 }
 
@@ -1091,3 +1819,10 @@ export const register_enhancement_provider = (
 ) => {
 	registry.register_enhancement_provider(provider);
 };
+
+/**
+ * List the concrete providers behind the registered tools
+ * @returns Each provider with its category and tool name
+ */
+export const get_sub_providers = (): RegisteredSubProvider[] =>
+	registry.get_sub_providers();
@@ -0,0 +1,54 @@
+import { get_log_context } from '../common/logger.js';
+import { with_span } from '../common/tracing.js';
+import type { MiddlewareMcpServer } from './middleware.js';
+
+interface IncomingMessage {
+	id?: string | number | null;
+	method?: string;
+	params?: {
+		name?: string;
+	};
+}
+
+interface OutgoingMessage {
+	result?: {
+		isError?: boolean;
+	};
+}
+
+// One span per MCP request with a child span for the tool call;
+// provider, retry and HTTP spans nest below it
+export const setup_request_tracing = (
+	server: MiddlewareMcpServer,
+) => {
+	server.use((message, _ctx, next) => {
+		const { id, method, params } = message as IncomingMessage;
+		if (!method || id == null) return next();
+
+		return with_span(
+			`mcp ${method}`,
+			{
+				'rpc.method': method,
+				'omnisearch.request_id': get_log_context().request_id,
+			},
+			async () => {
+				if (method !== 'tools/call') return next();
+
+				const tool = params?.name ?? 'unknown';
+				return with_span(
+					`tool ${tool}`,
+					{ 'omnisearch.tool': tool },
+					async (span) => {
+						const response = await next();
+						if (
+							(response as OutgoingMessage | null)?.result?.isError
+						) {
+							span.setAttribute('omnisearch.is_error', true);
+						}
+						return response;
+					},
+				);
+			},
+		);
+	});
+};